@@ -0,0 +1,318 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import { BotWorkerSnapshot } from "../types";
+import { WorkerSupervisor } from "../supervisor/workerSupervisor";
+import { ConfigWatcher } from "../config/configWatcher";
+import { logger } from "../logger/logger";
+
+export interface AdminServerOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+type BotAction = "start" | "stop" | "restart" | "reload";
+
+const BOT_ACTIONS: BotAction[] = ["start", "stop", "restart", "reload"];
+
+/**
+ * Ошибка запроса к API управления с HTTP-статусом
+ */
+class AdminHttpError extends Error {
+  public statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Класс локального HTTP API для управления ботами
+ * Слушает только localhost и требует токен в заголовке Authorization
+ *
+ * Маршруты:
+ *   GET  /bots                  — список ботов со статусом, PID, аптаймом и перезапусками
+ *   GET  /bots/:name            — состояние одного бота
+ *   GET  /bots/:name/contexts   — количество активных контекстов, присланное воркером
+ *   GET  /bots/:name/usage      — расход токенов и крупнейшие потребители за сутки и месяц
+ *   POST /bots/:name/start|stop|restart|reload
+ */
+export class AdminServer {
+  private supervisor: WorkerSupervisor;
+  private configWatcher: ConfigWatcher;
+  private options: AdminServerOptions;
+  private server: http.Server | null = null;
+
+  constructor(
+    supervisor: WorkerSupervisor,
+    configWatcher: ConfigWatcher,
+    options: AdminServerOptions
+  ) {
+    this.supervisor = supervisor;
+    this.configWatcher = configWatcher;
+    this.options = options;
+  }
+
+  /**
+   * Запускает HTTP-сервер
+   * @returns Promise, который разрешится, когда сервер начнет слушать порт
+   */
+  public start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const statusCode =
+          error instanceof AdminHttpError ? error.statusCode : 500;
+        if (statusCode === 500) {
+          logger.error("Ошибка обработки запроса к API управления", {
+            error,
+          });
+        }
+        this.sendJson(res, statusCode, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+    this.server = server;
+
+    return new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off("error", reject);
+        logger.info(
+          `API управления доступно на http://${this.options.host}:${this.options.port}`
+        );
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Останавливает HTTP-сервер
+   * @returns Promise, который разрешится после закрытия сервера
+   */
+  public close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  /**
+   * Разбирает запрос и вызывает нужное действие
+   * @param req HTTP-запрос
+   * @param res HTTP-ответ
+   * @private
+   */
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (!this.isAuthorized(req)) {
+      throw new AdminHttpError(401, "Неверный или отсутствующий токен");
+    }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const parts = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((part) => decodeURIComponent(part));
+
+    if (parts[0] !== "bots") {
+      throw new AdminHttpError(404, "Маршрут не найден");
+    }
+
+    // GET /bots
+    if (parts.length === 1) {
+      this.assertMethod(req, "GET");
+      this.sendJson(res, 200, {
+        bots: this.supervisor
+          .getSnapshots()
+          .map((snapshot) => this.formatSnapshot(snapshot)),
+      });
+      return;
+    }
+
+    const botName = parts[1];
+    const snapshot = this.supervisor.getSnapshot(botName);
+    if (!snapshot) {
+      throw new AdminHttpError(404, `Бот ${botName} не найден`);
+    }
+
+    // GET /bots/:name
+    if (parts.length === 2) {
+      this.assertMethod(req, "GET");
+      this.sendJson(res, 200, this.formatSnapshot(snapshot));
+      return;
+    }
+
+    if (parts.length !== 3) {
+      throw new AdminHttpError(404, "Маршрут не найден");
+    }
+
+    // GET /bots/:name/contexts и GET /bots/:name/usage
+    if (parts[2] === "contexts" || parts[2] === "usage") {
+      this.assertMethod(req, "GET");
+      if (!snapshot.metrics) {
+        throw new AdminHttpError(
+          503,
+          `Бот ${botName} еще не прислал показатели`
+        );
+      }
+      this.sendJson(
+        res,
+        200,
+        parts[2] === "contexts"
+          ? { botName, activeContexts: snapshot.metrics.activeContexts }
+          : { botName, usage: snapshot.metrics.usage }
+      );
+      return;
+    }
+
+    const action = parts[2] as BotAction;
+    if (!BOT_ACTIONS.includes(action)) {
+      throw new AdminHttpError(404, "Маршрут не найден");
+    }
+
+    this.assertMethod(req, "POST");
+    const result = await this.runAction(botName, action, snapshot);
+    logger.info("Действие API управления выполнено", {
+      botName,
+      action,
+      result,
+    });
+
+    this.sendJson(res, 200, {
+      botName,
+      action,
+      result,
+      bot: this.formatSnapshot(
+        this.supervisor.getSnapshot(botName) || snapshot
+      ),
+    });
+  }
+
+  /**
+   * Выполняет действие над ботом
+   * @param botName Имя бота
+   * @param action Действие
+   * @param snapshot Текущее состояние бота
+   * @returns Описание результата
+   * @private
+   */
+  private async runAction(
+    botName: string,
+    action: BotAction,
+    snapshot: BotWorkerSnapshot
+  ): Promise<string> {
+    switch (action) {
+      case "start": {
+        const config = this.supervisor.getConfig(botName);
+        if (snapshot.pid !== null || !config) {
+          throw new AdminHttpError(409, `Бот ${botName} уже запущен`);
+        }
+        this.supervisor.start(config);
+        return "started";
+      }
+      case "stop":
+        await this.supervisor.stop(botName);
+        return "stopped";
+      case "restart":
+        await this.supervisor.restart(botName);
+        return "restarted";
+      case "reload": {
+        const result = await this.configWatcher.reloadBot(botName);
+        if (!result) {
+          throw new AdminHttpError(
+            404,
+            `Файл конфигурации бота ${botName} не найден`
+          );
+        }
+        if (result === "rejected") {
+          throw new AdminHttpError(
+            422,
+            `Конфигурация бота ${botName} некорректна, изменения не применены`
+          );
+        }
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Проверяет токен из заголовка Authorization: Bearer <token>
+   * @param req HTTP-запрос
+   * @returns true, если токен совпадает
+   * @private
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || "";
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) return false;
+
+    // Сравниваем хэши, чтобы время сравнения не зависело от длины и содержимого
+    const expected = crypto
+      .createHash("sha256")
+      .update(this.options.token)
+      .digest();
+    const actual = crypto.createHash("sha256").update(match[1]).digest();
+
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Проверяет HTTP-метод запроса
+   * @param req HTTP-запрос
+   * @param method Ожидаемый метод
+   * @private
+   */
+  private assertMethod(req: http.IncomingMessage, method: string): void {
+    if (req.method !== method) {
+      throw new AdminHttpError(405, `Ожидается метод ${method}`);
+    }
+  }
+
+  /**
+   * Дополняет снимок состояния аптаймом процесса
+   * Метрики для Prometheus и отчет о расходе токенов в ответ не включаются,
+   * они доступны на /metrics и /bots/:name/usage
+   * @param snapshot Снимок состояния бота
+   * @returns Объект для ответа API
+   * @private
+   */
+  private formatSnapshot(snapshot: BotWorkerSnapshot) {
+    const { metrics, ...rest } = snapshot;
+    const isAlive = snapshot.pid !== null && snapshot.startedAt !== null;
+
+    return {
+      ...rest,
+      metrics: metrics && {
+        activeContexts: metrics.activeContexts,
+        uptimeMs: metrics.uptimeMs,
+        memoryRssBytes: metrics.memoryRssBytes,
+      },
+      uptimeMs: isAlive ? Date.now() - (snapshot.startedAt as number) : null,
+    };
+  }
+
+  /**
+   * Отправляет JSON-ответ
+   * @param res HTTP-ответ
+   * @param statusCode HTTP-статус
+   * @param body Тело ответа
+   * @private
+   */
+  private sendJson(
+    res: http.ServerResponse,
+    statusCode: number,
+    body: unknown
+  ): void {
+    if (res.headersSent) return;
+
+    res.writeHead(statusCode, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -1,148 +1,638 @@
-import axios, { AxiosError } from "axios";
 import { BOT_DEFAULTS } from "../constants";
-import { ChatMessage } from "../types";
+import {
+  ChatMessage,
+  CircuitBreakerConfig,
+  GenerationConfig,
+  GenerationParams,
+  GenerationPurpose,
+  PostTopic,
+  TokenUsage,
+  UsageScope,
+} from "../types";
+import {
+  LlmErrorType,
+  LlmFallback,
+  LlmProvider,
+} from "./providers/llmProvider";
+import { CircuitBreaker, CircuitOpenError } from "./circuitBreaker";
+import { getContentText } from "./chatContent";
+import { RequestDroppedError, RequestScheduler } from "./requestScheduler";
+import { PostTopicCache } from "../context/postTopicCache";
+import { BotMetrics } from "../metrics/botMetrics";
+import { UsageTracker } from "../usage/usageTracker";
+import {
+  estimateMessageTokens,
+  estimateTokens,
+} from "../context/tokenEstimator";
+import { Logger, logger } from "../logger/logger";
+
+// Ошибки, после которых запрос имеет смысл повторить
+const RETRYABLE_ERRORS: LlmErrorType[] = ["network", "rate_limit", "server"];
+
+// Провайдер со своим предохранителем: основной или резервный
+interface LlmTarget {
+  name: "primary" | "fallback";
+  provider: LlmProvider;
+  breaker: CircuitBreaker;
+  model?: string;
+}
 
 export class ApiService {
-  private apiKey: string;
-  private botName: string;
+  private provider: LlmProvider;
+  private targets: LlmTarget[];
+  private logger: Logger;
+  private metrics: BotMetrics;
+  private usageTracker: UsageTracker;
+  private scheduler: RequestScheduler;
+  private topicCache: PostTopicCache;
+  private generation: GenerationConfig;
+
+  constructor(
+    provider: LlmProvider,
+    botName: string,
+    metrics: BotMetrics,
+    usageTracker: UsageTracker,
+    scheduler: RequestScheduler,
+    topicCache: PostTopicCache,
+    generation: GenerationConfig = {},
+    fallback: LlmFallback | null = null,
+    circuitBreaker: CircuitBreakerConfig = {}
+  ) {
+    this.provider = provider;
+    this.logger = logger.child({ botName });
+    this.metrics = metrics;
+    this.usageTracker = usageTracker;
+    this.scheduler = scheduler;
+    this.topicCache = topicCache;
+    this.generation = generation;
+
+    const createBreaker = () =>
+      new CircuitBreaker(
+        circuitBreaker.FAILURE_THRESHOLD ||
+          BOT_DEFAULTS.API.CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+        circuitBreaker.COOLDOWN_MS ||
+          BOT_DEFAULTS.API.CIRCUIT_BREAKER.COOLDOWN_MS
+      );
+
+    this.targets = [{ name: "primary", provider, breaker: createBreaker() }];
+    if (fallback) {
+      this.targets.push({
+        name: "fallback",
+        provider: fallback.provider,
+        breaker: createBreaker(),
+        model: fallback.model,
+      });
+    }
+  }
 
-  constructor(apiKey: string, botName: string) {
-    this.apiKey = apiKey;
-    this.botName = botName;
+  /**
+   * Заменяет параметры генерации (при обновлении конфигурации на лету)
+   * @param generation Новые параметры генерации
+   */
+  public updateGeneration(generation: GenerationConfig = {}): void {
+    this.generation = generation;
   }
 
   /**
-   * Вызывает API с автоматическими повторами при ошибках сети
+   * Вызывает API с автоматическими повторами при ошибках сети,
+   * превышении лимита запросов и ошибках сервера
    * @param messages Сообщения для отправки в API
-   * @param maxRetries Максимальное количество повторных попыток
+   * @param purpose Вид запроса для выбора параметров генерации
+   * @param scope Чат и пользователь, на которых записывается расход токенов
+   * @param maxRetries Максимальное количество попыток
    * @param timeout Таймаут для запроса в мс
    * @returns Строка с ответом от API
    */
   public async callApiWithRetry(
     messages: ChatMessage[],
+    purpose: GenerationPurpose = "direct_reply",
+    scope?: UsageScope,
     maxRetries: number = BOT_DEFAULTS.API.DEFAULT_RETRIES,
     timeout: number = BOT_DEFAULTS.API.DEFAULT_TIMEOUT_MS
   ): Promise<string> {
-    let retryCount = 0;
-    let lastError: Error | AxiosError = new Error("Unknown error"); // Инициализация переменной
+    return this.runWithRetries(purpose, maxRetries, async (target) => {
+      let usage: TokenUsage | undefined;
+      const response = await target.provider.complete(messages, {
+        timeout,
+        generation: this.getTargetGenerationParams(target, purpose),
+        onUsage: (reported) => (usage = reported),
+      });
+      this.recordUsage(purpose, messages, response, usage, scope);
+      return response;
+    });
+  }
 
-    while (retryCount < maxRetries) {
-      try {
-        const response = await this.callDeepseekApi(messages, timeout);
-        return response;
-      } catch (error) {
-        lastError = error as Error | AxiosError;
-
-        // Проверяем, является ли ошибка сетевой
-        if (this.isNetworkError(error)) {
-          // Экспоненциальная задержка перед повторной попыткой
-          const waitTime =
-            BOT_DEFAULTS.API.BACKOFF_BASE_MS * Math.pow(2, retryCount);
-          console.log(
-            `[${this.botName}] Network error, retrying in ${waitTime}ms (${
-              retryCount + 1
-            }/${maxRetries})`
-          );
-          await this.delay(waitTime);
-          retryCount++;
-          continue;
-        }
+  /**
+   * Проверяет, отклонил ли провайдер сам запрос, например изображение
+   * в сообщении для модели без поддержки зрения
+   * @param error Ошибка запроса
+   * @returns true, если повтор того же запроса не поможет
+   */
+  public isRejectedRequest(error: unknown): boolean {
+    return this.provider.classifyError(error) === "bad_request";
+  }
 
-        // Если это не сетевая ошибка, пробрасываем дальше
-        throw error;
-      }
+  /**
+   * Сообщает, можно ли получать ответы потоком от текущего провайдера
+   * @returns true, если провайдер поддерживает потоковый режим
+   */
+  public supportsStreaming(): boolean {
+    return this.provider.supportsStreaming() && !!this.provider.completeStream;
+  }
+
+  /**
+   * Вызывает API в потоковом режиме с повторами при временных ошибках
+   * Повтор выполняется только если от API еще не пришло ни одного фрагмента.
+   * Если провайдер не поддерживает потоковый режим, ответ запрашивается целиком
+   * и передается в onDelta одним фрагментом
+   * @param messages Сообщения для отправки в API
+   * @param onDelta Вызывается для каждого полученного фрагмента текста
+   * @param purpose Вид запроса для выбора параметров генерации
+   * @param scope Чат и пользователь, на которых записывается расход токенов
+   * @param maxRetries Максимальное количество попыток
+   * @param timeout Таймаут для запроса в мс
+   * @returns Полный текст ответа
+   */
+  public async callApiStreaming(
+    messages: ChatMessage[],
+    onDelta: (delta: string) => void,
+    purpose: GenerationPurpose = "direct_reply",
+    scope?: UsageScope,
+    maxRetries: number = BOT_DEFAULTS.API.DEFAULT_RETRIES,
+    timeout: number = BOT_DEFAULTS.API.DEFAULT_TIMEOUT_MS
+  ): Promise<string> {
+    if (!this.supportsStreaming()) {
+      const response = await this.callApiWithRetry(
+        messages,
+        purpose,
+        scope,
+        maxRetries,
+        timeout
+      );
+      onDelta(response);
+      return response;
     }
 
-    console.error(
-      `[${this.botName}] Failed after ${maxRetries} retries:`,
-      lastError
+    let receivedAny = false;
+
+    return this.runWithRetries(
+      purpose,
+      maxRetries,
+      async (target) => {
+        let usage: TokenUsage | undefined;
+        const options = {
+          timeout,
+          generation: this.getTargetGenerationParams(target, purpose),
+          onUsage: (reported: TokenUsage) => (usage = reported),
+        };
+
+        let response: string;
+        if (
+          target.provider.supportsStreaming() &&
+          target.provider.completeStream
+        ) {
+          response = await target.provider.completeStream(
+            messages,
+            options,
+            (delta) => {
+              receivedAny = true;
+              onDelta(delta);
+            }
+          );
+        } else {
+          // Резервный провайдер может не поддерживать потоковый режим
+          response = await target.provider.complete(messages, options);
+          onDelta(response);
+        }
+
+        this.recordUsage(purpose, messages, response, usage, scope);
+        return response;
+      },
+      // После начала выдачи повтор продублировал бы уже показанный текст
+      () => !receivedAny
     );
-    throw lastError;
   }
 
   /**
-   * Определяет тему поста с использованием NLP-подхода
+   * Определяет тему, ключевые слова, тон и язык поста
+   * Результат кэшируется по тексту поста, поэтому повторные вызовы
+   * для того же поста (например, при ответах на него) не обращаются к API
    * @param postText Текст поста
-   * @returns Строка с темой поста
+   * @param scope Чат и пользователь, на которых записывается расход токенов
+   * @returns Тема поста
    */
-  public async inferPostTopic(postText: string): Promise<string> {
+  public async inferPostTopic(
+    postText: string,
+    scope?: UsageScope
+  ): Promise<PostTopic> {
     // Если пост слишком короткий, возвращаем общую тему
     if (postText.length < 10) {
-      return "Общая тема";
+      return { topic: BOT_DEFAULTS.POSTS.DEFAULT_TOPIC, keywords: [] };
     }
 
+    const cached = this.topicCache.get(postText);
+    if (cached) return cached;
+
     try {
       // Используем LLM для определения темы
-      const response = await this.callDeepseekApi(
-        [
-          {
-            role: "system",
-            content:
-              "Определи основную тему текста в 3-7 словах. Ответь только темой, без дополнительных пояснений.",
-          },
-          { role: "user", content: postText.substring(0, 500) }, // Берем только первые 500 символов
-        ],
-        5000
+      const messages: ChatMessage[] = [
+        {
+          role: "system",
+          content:
+            'Проанализируй текст и ответь только JSON-объектом без пояснений: {"topic": "основная тема в 3-7 словах", "keywords": ["до 5 ключевых слов"], "tone": "тон текста одним-двумя словами", "language": "язык текста"}',
+        },
+        { role: "user", content: postText.substring(0, 500) }, // Берем только первые 500 символов
+      ];
+      // Без повторов: при ошибке тема определяется простым способом
+      const response = await this.runWithRetries(
+        "topic_inference",
+        1,
+        async (target) => {
+          let usage: TokenUsage | undefined;
+          const result = await target.provider.complete(messages, {
+            timeout: 5000,
+            generation: this.getTargetGenerationParams(
+              target,
+              "topic_inference"
+            ),
+            onUsage: (reported) => (usage = reported),
+          });
+          this.recordUsage("topic_inference", messages, result, usage, scope);
+          return result;
+        }
       );
 
-      let topic = response.trim();
-      // Убираем лишние кавычки и точки
-      topic = topic.replace(/["'.]+$|^["'.]+/g, "");
-
-      return topic || "Общая тема";
+      const topic = this.parsePostTopic(response, postText);
+      this.topicCache.set(postText, topic);
+      return topic;
     } catch (error) {
-      console.error(`[${this.botName}] Error inferring topic:`, error);
+      this.logger.error("Error inferring topic", { error });
 
-      // Фолбэк на простой метод в случае ошибки
-      const topicMatch = postText.match(/^(.{1,50})[.!?]|^(.{1,50})/);
-      return topicMatch ? topicMatch[0] : "Общая тема";
+      // Фолбэк на простой метод в случае ошибки, не кэшируется
+      return { topic: this.extractTopicFromText(postText), keywords: [] };
     }
   }
 
   /**
-   * Делает запрос к API Deepseek
-   * @param messages Сообщения для API
-   * @param timeout Таймаут в мс
-   * @returns Строка с ответом от API
+   * Обновляет краткое содержание беседы с учетом вытесненных сообщений
+   * @param previousSummary Текущая выжимка (если есть)
+   * @param messages Сообщения, которые нужно добавить в выжимку
+   * @param scope Чат и пользователь, на которых записывается расход токенов
+   * @returns Новая выжимка
    */
-  private async callDeepseekApi(
+  public async summarizeConversation(
+    previousSummary: string | undefined,
     messages: ChatMessage[],
-    timeout: number
+    scope?: UsageScope
   ): Promise<string> {
-    const response = await axios.post(
-      "https://api.deepseek.com/chat/completions",
-      {
-        model: "deepseek-chat",
-        messages: messages,
-        max_tokens: 1000,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
+    const transcript = messages
+      .map((msg) => {
+        const author = msg.role === "assistant" ? "Бот" : "Собеседник";
+        return `${author}: ${getContentText(msg.content)}`;
+      })
+      .join("\n");
+
+    const response = await this.callApiWithRetry(
+      [
+        {
+          role: "system",
+          content:
+            "Ты ведешь краткую выжимку беседы. Дополни текущую выжимку важными фактами, именами, шутками и договоренностями из новых сообщений. Ответь только обновленной выжимкой в 3-6 предложениях, без вступлений.",
+        },
+        {
+          role: "user",
+          content: `Текущая выжимка: ${
+            previousSummary || "нет"
+          }\n\nНовые сообщения:\n${transcript}`,
         },
-        timeout: timeout,
+      ],
+      "summary",
+      scope
+    );
+
+    return response.trim();
+  }
+
+  /**
+   * Разбирает ответ модели с анализом поста
+   * Если модель ответила не JSON, ответ считается самой темой
+   * @param response Ответ модели
+   * @param postText Текст поста для запасного определения темы
+   * @returns Тема поста
+   */
+  private parsePostTopic(response: string, postText: string): PostTopic {
+    // Модели часто оборачивают JSON в блок кода
+    const json = response.match(/\{[\s\S]*\}/);
+
+    if (json) {
+      try {
+        const data = JSON.parse(json[0]);
+        const topic = typeof data.topic === "string" ? data.topic.trim() : "";
+
+        if (topic) {
+          return {
+            topic,
+            keywords: Array.isArray(data.keywords)
+              ? data.keywords
+                  .filter((keyword: unknown) => typeof keyword === "string")
+                  .map((keyword: string) => keyword.trim())
+                  .filter(Boolean)
+                  .slice(0, 5)
+              : [],
+            tone: this.optionalString(data.tone),
+            language: this.optionalString(data.language),
+          };
+        }
+      } catch (error) {
+        this.logger.debug("Topic response is not valid JSON", { response });
       }
+    }
+
+    // Убираем лишние кавычки и точки
+    const topic = response.trim().replace(/["'.]+$|^["'.]+/g, "");
+    const looksLikeJson = response.includes("{");
+    return {
+      topic:
+        topic && !looksLikeJson ? topic : this.extractTopicFromText(postText),
+      keywords: [],
+    };
+  }
+
+  /**
+   * Берет тему из начала текста поста: первое предложение до 50 символов
+   * @param postText Текст поста
+   * @returns Тема поста
+   */
+  private extractTopicFromText(postText: string): string {
+    const topicMatch = postText.match(/^(.{1,50})[.!?]|^(.{1,50})/);
+    return topicMatch ? topicMatch[0] : BOT_DEFAULTS.POSTS.DEFAULT_TOPIC;
+  }
+
+  private optionalString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * Возвращает параметры генерации для вида запроса
+   * Общие параметры из GENERATION дополняются переопределениями для вида запроса
+   * @param purpose Вид запроса
+   * @returns Итоговые параметры генерации
+   */
+  private getGenerationParams(purpose: GenerationPurpose): GenerationParams {
+    const { DIRECT_REPLY, POST_COMMENT, TOPIC_INFERENCE, SUMMARY, ...base } =
+      this.generation;
+
+    const overrides: Record<GenerationPurpose, GenerationParams | undefined> = {
+      direct_reply: DIRECT_REPLY,
+      post_comment: POST_COMMENT,
+      topic_inference: TOPIC_INFERENCE,
+      summary: SUMMARY,
+    };
+
+    // Выжимка не должна разрастаться, если длина не задана явно
+    const defaults: GenerationParams =
+      purpose === "summary"
+        ? { MAX_TOKENS: BOT_DEFAULTS.HISTORY.SUMMARY_MAX_TOKENS }
+        : {};
+
+    return { ...defaults, ...base, ...overrides[purpose] };
+  }
+
+  /**
+   * Выполняет запрос с повторами при временных ошибках
+   * Каждая попытка ждет своей очереди в планировщике и идет к первому
+   * провайдеру с замкнутой цепью: пока основной недоступен, запросы уходят
+   * резервному. Задержка между попытками берется из Retry-After или растет
+   * экспоненциально со случайной добавкой
+   * @param purpose Вид запроса
+   * @param maxAttempts Максимальное количество попыток
+   * @param attempt Одна попытка запроса к выбранному провайдеру
+   * @param canRetry Дополнительное условие повтора
+   * @returns Результат первой успешной попытки
+   */
+  private async runWithRetries<T>(
+    purpose: GenerationPurpose,
+    maxAttempts: number,
+    attempt: (target: LlmTarget) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const deadline = this.scheduler.createDeadline();
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      // Провайдер выбирается, когда подошла очередь: состояние цепи могло измениться
+      const current: { target?: LlmTarget } = {};
+
+      try {
+        return await this.scheduler.schedule(purpose, deadline, async () => {
+          const target = this.selectTarget(purpose);
+          current.target = target;
+
+          const result = await this.measureAttempt(purpose, target, () =>
+            attempt(target)
+          );
+          target.breaker.recordSuccess();
+          return result;
+        });
+      } catch (error) {
+        const target = current.target;
+
+        if (error instanceof RequestDroppedError) {
+          this.metrics.recordLlmQueueDrop(purpose, error.reason);
+          this.logger.warn("Запрос к LLM отброшен очередью", {
+            purpose,
+            reason: error.reason,
+          });
+        }
+
+        // Ошибки очереди и предохранителя возникают до обращения к API
+        if (!target) throw error;
+
+        const errorType = target.provider.classifyError(error);
+        this.recordBreakerFailure(target, errorType);
+
+        if (!RETRYABLE_ERRORS.includes(errorType) || !canRetry()) {
+          throw error;
+        }
+
+        if (attemptNumber >= maxAttempts) {
+          if (maxAttempts > 1) {
+            this.logger.error(`Failed after ${maxAttempts} attempts`, {
+              purpose,
+              error,
+            });
+          }
+          throw error;
+        }
+
+        const waitTime = this.getRetryDelay(target, error, attemptNumber);
+        if (waitTime === null || Date.now() + waitTime >= deadline) {
+          this.logger.warn("Retry delay exceeds the limit, giving up", {
+            purpose,
+          });
+          throw error;
+        }
+
+        this.logger.warn(
+          `${errorType} error, retrying in ${waitTime}ms (${attemptNumber}/${maxAttempts})`,
+          { purpose, provider: target.name }
+        );
+        await this.delay(waitTime);
+        this.metrics.recordLlmRetry(purpose);
+      }
+    }
+  }
+
+  /**
+   * Выбирает провайдера для очередной попытки
+   * @param purpose Вид запроса (для лога)
+   * @returns Первый провайдер, предохранитель которого пропускает запрос
+   * @throws CircuitOpenError, если все провайдеры временно недоступны
+   */
+  private selectTarget(purpose: GenerationPurpose): LlmTarget {
+    for (const target of this.targets) {
+      if (!target.breaker.tryAcquire()) continue;
+
+      if (target.name === "fallback") {
+        this.logger.debug(
+          "Основной провайдер недоступен, запрос к резервному",
+          {
+            purpose,
+          }
+        );
+      }
+      return target;
+    }
+
+    throw new CircuitOpenError(
+      Math.min(
+        ...this.targets.map((target) => target.breaker.getRemainingCooldownMs())
+      )
     );
+  }
 
-    return response.data.choices[0].message.content;
+  /**
+   * Учитывает неудачную попытку в предохранителе провайдера
+   * Ошибки в самом запросе (bad_request) не говорят о недоступности API
+   * @param target Провайдер
+   * @param errorType Класс ошибки
+   */
+  private recordBreakerFailure(
+    target: LlmTarget,
+    errorType: LlmErrorType
+  ): void {
+    if (errorType === "bad_request") {
+      target.breaker.recordSuccess();
+      return;
+    }
+
+    if (target.breaker.recordFailure()) {
+      this.metrics.recordCircuitOpen(target.name);
+      this.logger.warn(
+        "Предохранитель разомкнут, запросы временно отклоняются",
+        {
+          provider: target.name,
+          cooldownMs: target.breaker.getRemainingCooldownMs(),
+        }
+      );
+    }
   }
 
   /**
-   * Проверяет, является ли ошибка сетевой ошибкой
+   * Рассчитывает задержку перед повторной попыткой
+   * @param target Провайдер, вернувший ошибку
    * @param error Объект ошибки
-   * @returns true, если ошибка сетевая
-   */
-  private isNetworkError(error: any): boolean {
-    return (
-      axios.isAxiosError(error) &&
-      (error.code === "ECONNRESET" ||
-        error.code === "ETIMEDOUT" ||
-        error.code === "ECONNABORTED" ||
-        error.message.includes("timeout") ||
-        error.message.includes("network") ||
-        !error.response)
-    );
+   * @param attemptNumber Номер неудачной попытки, начиная с 1
+   * @returns Задержка в мс или null, если API просит ждать дольше допустимого
+   */
+  private getRetryDelay(
+    target: LlmTarget,
+    error: unknown,
+    attemptNumber: number
+  ): number | null {
+    const retryAfter = target.provider.getRetryAfterMs(error);
+    if (retryAfter !== null) {
+      return retryAfter <= BOT_DEFAULTS.API.MAX_RETRY_AFTER_MS
+        ? retryAfter
+        : null;
+    }
+
+    // Половина задержки случайна, чтобы повторы одновременных запросов не совпадали
+    const backoff =
+      BOT_DEFAULTS.API.BACKOFF_BASE_MS * Math.pow(2, attemptNumber - 1);
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+
+  /**
+   * Возвращает параметры генерации с учетом модели резервного провайдера
+   * @param target Провайдер
+   * @param purpose Вид запроса
+   * @returns Параметры генерации
+   */
+  private getTargetGenerationParams(
+    target: LlmTarget,
+    purpose: GenerationPurpose
+  ): GenerationParams {
+    const params = this.getGenerationParams(purpose);
+    if (target.name === "primary") return params;
+
+    // Модели из GENERATION относятся к основному провайдеру
+    return { ...params, MODEL: target.model };
+  }
+
+  /**
+   * Выполняет одну попытку запроса к провайдеру и учитывает ее в метриках
+   * @param purpose Вид запроса
+   * @param target Провайдер
+   * @param call Запрос к провайдеру
+   * @returns Результат запроса
+   */
+  private async measureAttempt<T>(
+    purpose: GenerationPurpose,
+    target: LlmTarget,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await call();
+      this.metrics.recordLlmAttempt(purpose, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.metrics.recordLlmAttempt(
+        purpose,
+        Date.now() - startedAt,
+        target.provider.classifyError(error)
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Учитывает расход токенов успешного запроса
+   * Если API не сообщил расход, он оценивается по длине текста
+   * @param purpose Вид запроса
+   * @param messages Сообщения запроса
+   * @param response Ответ модели
+   * @param usage Расход, сообщенный API
+   * @param scope Чат и пользователь запроса
+   */
+  private recordUsage(
+    purpose: GenerationPurpose,
+    messages: ChatMessage[],
+    response: string,
+    usage: TokenUsage | undefined,
+    scope: UsageScope | undefined
+  ): void {
+    const tokens: TokenUsage = usage || {
+      promptTokens: messages.reduce(
+        (sum, msg) => sum + estimateMessageTokens(msg),
+        0
+      ),
+      completionTokens: estimateTokens(response),
+    };
+
+    this.metrics.recordTokenUsage(purpose, tokens);
+    this.usageTracker.record(tokens, scope);
   }
 
   /**
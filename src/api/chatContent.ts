@@ -0,0 +1,55 @@
+import { ChatContentPart, ChatMessage } from "../types";
+
+/**
+ * Создает содержимое сообщения из текста и изображений
+ * @param text Текст сообщения
+ * @param imageUrls Изображения в виде data URL
+ * @returns Содержимое из нескольких частей
+ */
+export function createImageContent(
+  text: string,
+  imageUrls: string[]
+): ChatContentPart[] {
+  return [
+    { type: "text", text },
+    ...imageUrls.map(
+      (url): ChatContentPart => ({ type: "image_url", image_url: { url } })
+    ),
+  ];
+}
+
+/**
+ * Возвращает текст сообщения без изображений
+ * @param content Содержимое сообщения
+ * @returns Текстовые части, объединенные через перевод строки
+ */
+export function getContentText(content: ChatMessage["content"]): string {
+  if (typeof content === "string") return content;
+
+  return content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Считает изображения в содержимом сообщения
+ * @param content Содержимое сообщения
+ * @returns Количество изображений
+ */
+export function countContentImages(content: ChatMessage["content"]): number {
+  if (typeof content === "string") return 0;
+  return content.filter((part) => part.type === "image_url").length;
+}
+
+/**
+ * Убирает изображения из сообщений для повтора запроса только с текстом
+ * @param messages Сообщения для модели
+ * @returns Сообщения с текстовым содержимым
+ */
+export function toTextOnlyMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) => ({
+    role: message.role,
+    content: getContentText(message.content),
+  }));
+}
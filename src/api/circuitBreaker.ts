@@ -0,0 +1,100 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Ошибка, которой запрос отклоняется без обращения к API, пока цепь разомкнута
+ */
+export class CircuitOpenError extends Error {
+  public retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(
+      `LLM API недоступен, повтор через ${Math.ceil(retryAfterMs / 1000)}с`
+    );
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Класс предохранителя для запросов к провайдеру LLM
+ * После failureThreshold неудач подряд цепь размыкается на cooldownMs,
+ * и запросы сразу отклоняются. По истечении паузы пропускается одна
+ * пробная попытка: успех замыкает цепь, неудача размыкает ее снова
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private state: CircuitState = "closed";
+  private consecutiveFailures: number = 0;
+  private openedAt: number = 0;
+  private trialInFlight: boolean = false;
+
+  constructor(failureThreshold: number, cooldownMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Проверяет, можно ли выполнить запрос, и занимает пробную попытку,
+   * если пауза после размыкания истекла
+   * @returns true, если запрос можно выполнять
+   */
+  public tryAcquire(): boolean {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open") {
+      if (this.getRemainingCooldownMs() > 0) return false;
+      this.state = "half_open";
+    }
+
+    // В полуоткрытом состоянии пропускаем только одну пробную попытку
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Учитывает успешный запрос и замыкает цепь
+   */
+  public recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Учитывает неудачный запрос
+   * @returns true, если после этой неудачи цепь разомкнулась
+   */
+  public recordFailure(): boolean {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+
+    // Запросы, начатые до размыкания, не продлевают паузу
+    if (this.state === "open") return false;
+
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Возвращает время до окончания паузы после размыкания
+   * @returns Миллисекунды до пробной попытки (0, если цепь не разомкнута)
+   */
+  public getRemainingCooldownMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+}
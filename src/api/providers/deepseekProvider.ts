@@ -0,0 +1,25 @@
+import { BOT_DEFAULTS } from "../../constants";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+
+/**
+ * Провайдер для API Deepseek
+ * Использует OpenAI-совместимый протокол с предустановленными адресом и моделью
+ */
+export class DeepseekProvider extends OpenAiCompatibleProvider {
+  public readonly name: string = "deepseek";
+
+  constructor(
+    apiKey: string,
+    model?: string,
+    maxTokens?: number,
+    streaming?: boolean
+  ) {
+    super({
+      baseUrl: BOT_DEFAULTS.API.DEEPSEEK.BASE_URL,
+      apiKey: apiKey,
+      model: model || BOT_DEFAULTS.API.DEEPSEEK.MODEL,
+      maxTokens: maxTokens || BOT_DEFAULTS.API.DEFAULT_MAX_TOKENS,
+      streaming: streaming,
+    });
+  }
+}
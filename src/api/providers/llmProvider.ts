@@ -0,0 +1,83 @@
+import { ChatMessage, GenerationParams, TokenUsage } from "../../types";
+
+/**
+ * Класс ошибки, определенный провайдером
+ * Используется ApiService для решения о повторных попытках
+ */
+export type LlmErrorType =
+  | "network"
+  | "rate_limit"
+  | "server"
+  | "auth"
+  | "bad_request"
+  | "unknown";
+
+/**
+ * Параметры одного запроса к провайдеру
+ */
+export interface LlmRequestOptions {
+  timeout: number;
+  generation?: GenerationParams;
+  // Вызывается с расходом токенов, если API сообщил его в ответе
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Резервный провайдер и модель для запросов, пока основной недоступен
+ */
+export interface LlmFallback {
+  provider: LlmProvider;
+  model?: string;
+}
+
+/**
+ * Интерфейс провайдера LLM
+ * Провайдер отвечает за формирование запроса, разбор ответа и классификацию ошибок
+ */
+export interface LlmProvider {
+  readonly name: string;
+
+  /**
+   * Запрашивает завершение диалога у модели
+   * @param messages Сообщения для модели
+   * @param options Параметры запроса
+   * @returns Строка с ответом модели
+   */
+  complete(
+    messages: ChatMessage[],
+    options: LlmRequestOptions
+  ): Promise<string>;
+
+  /**
+   * Сообщает, может ли провайдер отдавать ответ потоком
+   * @returns true, если доступен completeStream
+   */
+  supportsStreaming(): boolean;
+
+  /**
+   * Запрашивает завершение диалога в потоковом режиме (SSE)
+   * @param messages Сообщения для модели
+   * @param options Параметры запроса
+   * @param onDelta Вызывается для каждого полученного фрагмента текста
+   * @returns Полный текст ответа модели
+   */
+  completeStream?(
+    messages: ChatMessage[],
+    options: LlmRequestOptions,
+    onDelta: (delta: string) => void
+  ): Promise<string>;
+
+  /**
+   * Определяет класс ошибки, возникшей при запросе
+   * @param error Объект ошибки
+   * @returns Класс ошибки
+   */
+  classifyError(error: unknown): LlmErrorType;
+
+  /**
+   * Извлекает из ошибки время, через которое API разрешает повторить запрос
+   * @param error Объект ошибки
+   * @returns Задержка в мс или null, если API ее не указал
+   */
+  getRetryAfterMs(error: unknown): number | null;
+}
@@ -0,0 +1,416 @@
+import axios from "axios";
+import { ChatMessage, GenerationParams, TokenUsage } from "../../types";
+import { LlmErrorType, LlmProvider, LlmRequestOptions } from "./llmProvider";
+
+export interface OpenAiCompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxTokens: number;
+  streaming?: boolean;
+}
+
+// Разобранное событие потока: фрагмент текста и, в последнем событии, расход токенов
+interface StreamEvent {
+  delta: string;
+  usage: TokenUsage | null;
+}
+
+/**
+ * Ошибка, которую API прислал событием потока вместо очередного фрагмента
+ */
+export class LlmStreamError extends Error {
+  // HTTP-статус, если API указал его в поле code
+  public readonly status: number | null;
+  // Тип или строковый код ошибки, например server_error
+  public readonly errorType: string | null;
+
+  constructor(
+    message: string,
+    status: number | null,
+    errorType: string | null
+  ) {
+    super(message);
+    this.name = "LlmStreamError";
+    this.status = status;
+    this.errorType = errorType;
+  }
+}
+
+/**
+ * Провайдер для любого OpenAI-совместимого API
+ * Подходит для облачных сервисов и локальных серверов (llama.cpp, Ollama)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  public readonly name: string = "openai-compatible";
+  protected options: OpenAiCompatibleOptions;
+
+  constructor(options: OpenAiCompatibleOptions) {
+    this.options = {
+      ...options,
+      // Убираем завершающий слэш, чтобы корректно склеивать пути
+      baseUrl: options.baseUrl.replace(/\/+$/, ""),
+    };
+  }
+
+  /**
+   * Делает запрос к эндпоинту /chat/completions
+   * @param messages Сообщения для API
+   * @param options Параметры запроса
+   * @returns Строка с ответом от API
+   */
+  public async complete(
+    messages: ChatMessage[],
+    options: LlmRequestOptions
+  ): Promise<string> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/chat/completions`,
+      this.buildRequestBody(messages, options.generation),
+      {
+        headers: this.buildHeaders(),
+        timeout: options.timeout,
+      }
+    );
+
+    const usage = this.parseUsage(response.data);
+    if (usage) options.onUsage?.(usage);
+
+    return this.parseResponse(response.data);
+  }
+
+  /**
+   * Сообщает, включен ли потоковый режим для этого эндпоинта
+   * @returns true, если потоковый режим не отключен в конфигурации
+   */
+  public supportsStreaming(): boolean {
+    return this.options.streaming !== false;
+  }
+
+  /**
+   * Делает потоковый запрос к /chat/completions и разбирает события SSE
+   * @param messages Сообщения для API
+   * @param options Параметры запроса
+   * @param onDelta Вызывается для каждого полученного фрагмента текста
+   * @returns Полный текст ответа
+   */
+  public async completeStream(
+    messages: ChatMessage[],
+    options: LlmRequestOptions,
+    onDelta: (delta: string) => void
+  ): Promise<string> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/chat/completions`,
+      {
+        ...this.buildRequestBody(messages, options.generation),
+        stream: true,
+        // Просим прислать расход токенов последним событием потока
+        stream_options: { include_usage: true },
+      },
+      {
+        headers: this.buildHeaders(),
+        timeout: options.timeout,
+        responseType: "stream",
+      }
+    );
+
+    const stream = response.data as NodeJS.ReadableStream;
+    // Декодируем поток как UTF-8, чтобы не разрывать многобайтовые символы
+    stream.setEncoding("utf8");
+
+    // Некоторые серверы игнорируют stream: true и отвечают обычным JSON
+    const contentType = String(response.headers["content-type"] || "");
+    if (!contentType.includes("text/event-stream")) {
+      return this.readPlainCompletion(stream, options, onDelta);
+    }
+
+    let fullText = "";
+    let pending = "";
+    let usage: TokenUsage | null = null;
+
+    const handleLine = (line: string) => {
+      const event = this.parseStreamLine(line);
+      if (!event) return;
+
+      if (event.usage) usage = event.usage;
+      if (event.delta) {
+        fullText += event.delta;
+        onDelta(event.delta);
+      }
+    };
+
+    for await (const chunk of stream) {
+      pending += chunk;
+      const lines = pending.split("\n");
+      // Последняя строка может быть неполной, оставляем ее до следующего фрагмента
+      pending = lines.pop() || "";
+
+      lines.forEach(handleLine);
+    }
+    handleLine(pending);
+
+    if (usage) options.onUsage?.(usage);
+
+    return fullText;
+  }
+
+  /**
+   * Читает ответ без потока целиком и отдает его одним фрагментом
+   * @param stream Тело ответа
+   * @param options Параметры запроса
+   * @param onDelta Вызывается один раз с полным текстом ответа
+   * @returns Полный текст ответа
+   */
+  protected async readPlainCompletion(
+    stream: NodeJS.ReadableStream,
+    options: LlmRequestOptions,
+    onDelta: (delta: string) => void
+  ): Promise<string> {
+    let body = "";
+    for await (const chunk of stream) {
+      body += chunk;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(body);
+    } catch (error) {
+      throw new Error(`Unexpected response format from ${this.name} provider`);
+    }
+
+    if (data?.error) {
+      throw this.createStreamError(data.error);
+    }
+
+    const usage = this.parseUsage(data);
+    if (usage) options.onUsage?.(usage);
+
+    const text = this.parseResponse(data);
+    if (text) onDelta(text);
+    return text;
+  }
+
+  /**
+   * Классифицирует ошибку запроса по коду и HTTP-статусу
+   * @param error Объект ошибки
+   * @returns Класс ошибки
+   */
+  public classifyError(error: unknown): LlmErrorType {
+    if (error instanceof LlmStreamError) {
+      return this.classifyStreamError(error);
+    }
+
+    if (!axios.isAxiosError(error)) {
+      return "unknown";
+    }
+
+    if (
+      error.code === "ECONNRESET" ||
+      error.code === "ETIMEDOUT" ||
+      error.code === "ECONNABORTED" ||
+      error.message.includes("timeout") ||
+      error.message.includes("network") ||
+      !error.response
+    ) {
+      return "network";
+    }
+
+    return this.classifyStatus(error.response.status);
+  }
+
+  /**
+   * Классифицирует ошибку из события потока по статусу или типу
+   * @param error Ошибка потока
+   * @returns Класс ошибки
+   */
+  protected classifyStreamError(error: LlmStreamError): LlmErrorType {
+    if (error.status !== null) return this.classifyStatus(error.status);
+
+    const errorType = error.errorType || "";
+    if (/rate_limit/i.test(errorType)) return "rate_limit";
+    if (/auth|permission|api_key/i.test(errorType)) return "auth";
+    if (/invalid_request|context_length/i.test(errorType)) return "bad_request";
+
+    // Оборванная посреди генерации выдача обычно означает сбой на стороне API
+    return "server";
+  }
+
+  /**
+   * Классифицирует ошибку по HTTP-статусу
+   * @param status HTTP-статус
+   * @returns Класс ошибки
+   */
+  protected classifyStatus(status: number): LlmErrorType {
+    if (status === 429) return "rate_limit";
+    if (status >= 500) return "server";
+    if (status === 401 || status === 403) return "auth";
+    if (status >= 400) return "bad_request";
+
+    return "unknown";
+  }
+
+  /**
+   * Читает заголовок Retry-After ответа с ошибкой
+   * Заголовок может содержать число секунд или HTTP-дату
+   * @param error Объект ошибки
+   * @returns Задержка в мс или null, если заголовка нет
+   */
+  public getRetryAfterMs(error: unknown): number | null {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return null;
+    }
+
+    const header = error.response.headers?.["retry-after"];
+    if (header === undefined || header === null) return null;
+
+    const value = String(header).trim();
+    const seconds = Number(value);
+    if (value !== "" && Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Формирует тело запроса
+   * @param messages Сообщения для API
+   * @param generation Параметры генерации (опционально)
+   * @returns Объект тела запроса
+   */
+  protected buildRequestBody(
+    messages: ChatMessage[],
+    generation: GenerationParams = {}
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: generation.MODEL || this.options.model,
+      messages: messages,
+      max_tokens: generation.MAX_TOKENS || this.options.maxTokens,
+    };
+
+    // Передаем только явно заданные параметры, остальное остается на усмотрение API
+    if (generation.TEMPERATURE !== undefined) {
+      body.temperature = generation.TEMPERATURE;
+    }
+    if (generation.TOP_P !== undefined) {
+      body.top_p = generation.TOP_P;
+    }
+    if (generation.PRESENCE_PENALTY !== undefined) {
+      body.presence_penalty = generation.PRESENCE_PENALTY;
+    }
+    if (generation.FREQUENCY_PENALTY !== undefined) {
+      body.frequency_penalty = generation.FREQUENCY_PENALTY;
+    }
+    if (generation.STOP && generation.STOP.length > 0) {
+      body.stop = generation.STOP;
+    }
+
+    return body;
+  }
+
+  /**
+   * Формирует заголовки запроса
+   * @returns Объект заголовков
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    // Локальные серверы обычно не требуют ключа
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Разбирает одну строку потока SSE
+   * @param line Строка вида "data: {...}"
+   * @returns Событие с фрагментом текста и расходом токенов или null, если строка не содержит данных
+   * @throws LlmStreamError, если API прислал в потоке объект error
+   */
+  protected parseStreamLine(line: string): StreamEvent | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return null;
+
+    const payload = trimmed.slice("data:".length).trim();
+    if (!payload || payload === "[DONE]") return null;
+
+    let data: any;
+    try {
+      data = JSON.parse(payload);
+    } catch (error) {
+      // Пропускаем служебные или поврежденные события
+      return null;
+    }
+
+    // Ошибка посреди потока: без исключения ответ сохранился бы оборванным
+    if (data?.error) {
+      throw this.createStreamError(data.error);
+    }
+
+    const delta = data?.choices?.[0]?.delta?.content;
+    return {
+      delta: typeof delta === "string" ? delta : "",
+      usage: this.parseUsage(data),
+    };
+  }
+
+  /**
+   * Создает ошибку из объекта error события потока
+   * @param error Объект error (message, type, code)
+   * @returns Ошибка потока
+   */
+  protected createStreamError(error: any): LlmStreamError {
+    const message =
+      typeof error?.message === "string"
+        ? error.message
+        : `Stream error from ${this.name} provider`;
+    const status = typeof error?.code === "number" ? error.code : null;
+    const errorType =
+      typeof error?.type === "string"
+        ? error.type
+        : typeof error?.code === "string"
+        ? error.code
+        : null;
+
+    return new LlmStreamError(message, status, errorType);
+  }
+
+  /**
+   * Извлекает расход токенов из данных API
+   * @param data Тело ответа или событие потока
+   * @returns Расход токенов или null, если API его не сообщил
+   */
+  protected parseUsage(data: any): TokenUsage | null {
+    const usage = data?.usage;
+    if (
+      typeof usage?.prompt_tokens !== "number" ||
+      typeof usage?.completion_tokens !== "number"
+    ) {
+      return null;
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+    };
+  }
+
+  /**
+   * Извлекает текст ответа из данных API
+   * @param data Тело ответа
+   * @returns Строка с ответом модели
+   */
+  protected parseResponse(data: any): string {
+    const content = data?.choices?.[0]?.message?.content;
+
+    if (typeof content !== "string") {
+      throw new Error(`Unexpected response format from ${this.name} provider`);
+    }
+
+    return content;
+  }
+}
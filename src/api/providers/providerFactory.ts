@@ -0,0 +1,57 @@
+import { BOT_DEFAULTS } from "../../constants";
+import { BotConfig } from "../../types";
+import { DeepseekProvider } from "./deepseekProvider";
+import { LlmFallback, LlmProvider } from "./llmProvider";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+
+/**
+ * Создает провайдера LLM на основе конфигурации бота
+ * Если блок LLM_PROVIDER не задан, используется Deepseek с DEEPSEEK_API_KEY
+ * @param config Конфигурация бота
+ * @returns Экземпляр провайдера
+ */
+export function createLlmProvider(config: BotConfig): LlmProvider {
+  const providerConfig = config.LLM_PROVIDER;
+
+  if (!providerConfig || providerConfig.TYPE === "deepseek") {
+    return new DeepseekProvider(
+      providerConfig?.API_KEY || config.DEEPSEEK_API_KEY || "",
+      providerConfig?.MODEL,
+      providerConfig?.MAX_TOKENS,
+      providerConfig?.STREAMING
+    );
+  }
+
+  if (providerConfig.TYPE === "openai-compatible") {
+    return new OpenAiCompatibleProvider({
+      baseUrl: providerConfig.BASE_URL || "",
+      apiKey: providerConfig.API_KEY,
+      model: providerConfig.MODEL || "",
+      maxTokens:
+        providerConfig.MAX_TOKENS || BOT_DEFAULTS.API.DEFAULT_MAX_TOKENS,
+      streaming: providerConfig.STREAMING,
+    });
+  }
+
+  throw new Error(`Unknown LLM provider type: ${providerConfig.TYPE}`);
+}
+
+/**
+ * Создает резервного провайдера из блока LLM_FALLBACK
+ * Если в блоке задана только модель, используется отдельный экземпляр основного провайдера
+ * @param config Конфигурация бота
+ * @returns Резервный провайдер с моделью или null, если резерв не настроен
+ */
+export function createFallbackProvider(config: BotConfig): LlmFallback | null {
+  const fallback = config.LLM_FALLBACK;
+  if (!fallback) return null;
+
+  return {
+    provider: createLlmProvider(
+      fallback.PROVIDER
+        ? { ...config, LLM_PROVIDER: fallback.PROVIDER }
+        : config
+    ),
+    model: fallback.MODEL,
+  };
+}
@@ -0,0 +1,169 @@
+import { BOT_DEFAULTS } from "../constants";
+import { GenerationPurpose, LlmQueueConfig } from "../types";
+
+export type RequestDropReason = "shed" | "expired";
+
+/**
+ * Ошибка, которой отклоняется запрос, не дождавшийся своей очереди
+ */
+export class RequestDroppedError extends Error {
+  public reason: RequestDropReason;
+
+  constructor(reason: RequestDropReason) {
+    super(
+      reason === "shed"
+        ? "Очередь запросов к LLM переполнена"
+        : "Запрос к LLM не дождался очереди до истечения срока"
+    );
+    this.name = "RequestDroppedError";
+    this.reason = reason;
+  }
+}
+
+// Чем меньше число, тем раньше выполняется запрос
+const PRIORITIES: Record<GenerationPurpose, number> = {
+  direct_reply: 0,
+  post_comment: 1,
+  topic_inference: 2,
+  summary: 3,
+};
+
+interface QueuedRequest {
+  priority: number;
+  start: () => void;
+  drop: (reason: RequestDropReason) => void;
+}
+
+/**
+ * Класс очереди запросов к LLM одного бота
+ * Ограничивает число одновременных запросов и выполняет ожидающие
+ * в порядке приоритета: ответы пользователям, комментарии к постам,
+ * определение темы, выжимки. При переполнении очереди вытесняется
+ * самый низкоприоритетный запрос, а запросы с истекшим сроком отклоняются
+ */
+export class RequestScheduler {
+  private maxConcurrency: number;
+  private maxQueueLength: number;
+  private deadlineMs: number;
+  private active: number = 0;
+  // Отсортирована по приоритету, внутри приоритета — по времени постановки
+  private queue: QueuedRequest[] = [];
+
+  constructor(options: LlmQueueConfig = {}) {
+    this.maxConcurrency =
+      options.MAX_CONCURRENCY || BOT_DEFAULTS.LLM_QUEUE.MAX_CONCURRENCY;
+    this.maxQueueLength =
+      options.MAX_QUEUE_LENGTH || BOT_DEFAULTS.LLM_QUEUE.MAX_QUEUE_LENGTH;
+    this.deadlineMs = options.DEADLINE_MS || BOT_DEFAULTS.LLM_QUEUE.DEADLINE_MS;
+  }
+
+  /**
+   * Возвращает срок для нового запроса; повторные попытки используют тот же срок
+   * @returns Момент (timestamp), после которого запрос отбрасывается
+   */
+  public createDeadline(): number {
+    return Date.now() + this.deadlineMs;
+  }
+
+  /**
+   * Выполняет запрос, когда освободится место и подойдет его очередь
+   * @param purpose Вид запроса, определяет приоритет
+   * @param deadline Момент (timestamp), после которого запрос уже не нужен
+   * @param task Запрос к LLM
+   * @returns Результат запроса
+   * @throws RequestDroppedError, если запрос вытеснен или не дождался очереди
+   */
+  public schedule<T>(
+    purpose: GenerationPurpose,
+    deadline: number,
+    task: () => Promise<T>
+  ): Promise<T> {
+    if (this.active < this.maxConcurrency && this.queue.length === 0) {
+      return this.run(task);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        reject(new RequestDroppedError("expired"));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.remove(entry);
+        reject(new RequestDroppedError("expired"));
+      }, remainingMs);
+
+      const entry: QueuedRequest = {
+        priority: PRIORITIES[purpose],
+        start: () => {
+          clearTimeout(timer);
+          this.run(task).then(resolve, reject);
+        },
+        drop: (reason) => {
+          clearTimeout(timer);
+          reject(new RequestDroppedError(reason));
+        },
+      };
+
+      this.enqueue(entry);
+    });
+  }
+
+  /**
+   * Ставит запрос в очередь с учетом приоритета
+   * При переполнении вытесняет последний запрос с самым низким приоритетом,
+   * если он менее важен нового, иначе отклоняет новый запрос
+   * @param entry Запрос
+   * @private
+   */
+  private enqueue(entry: QueuedRequest): void {
+    if (this.queue.length >= this.maxQueueLength) {
+      const lowest = this.queue[this.queue.length - 1];
+      if (lowest.priority <= entry.priority) {
+        entry.drop("shed");
+        return;
+      }
+
+      this.queue.pop();
+      lowest.drop("shed");
+    }
+
+    const index = this.queue.findIndex(
+      (queued) => queued.priority > entry.priority
+    );
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+  }
+
+  /**
+   * Выполняет запрос, занимая место, и запускает следующий по его завершении
+   * @param task Запрос
+   * @returns Результат запроса
+   * @private
+   */
+  private async run<T>(task: () => Promise<T>): Promise<T> {
+    this.active++;
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.startNext();
+    }
+  }
+
+  /**
+   * Запускает ожидающие запросы, пока есть свободные места
+   * @private
+   */
+  private startNext(): void {
+    while (this.active < this.maxConcurrency && this.queue.length > 0) {
+      this.queue.shift()!.start();
+    }
+  }
+
+  private remove(entry: QueuedRequest): void {
+    const index = this.queue.indexOf(entry);
+    if (index !== -1) this.queue.splice(index, 1);
+  }
+}
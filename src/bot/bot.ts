@@ -1,12 +1,45 @@
 import { Telegraf, Context } from "telegraf";
+import * as crypto from "crypto";
 import * as dotenv from "dotenv";
 import { BOT_DEFAULTS } from "../constants";
-import { BotConfig } from "../types";
+import {
+  BotConfig,
+  ChatSettings,
+  MessageTrigger,
+  PostTopic,
+  UsageTotals,
+  UserContext,
+  WorkerMetricsSnapshot,
+} from "../types";
 import { MessageHandlers } from "../messages/messageHandlers";
 import { MessageSender } from "../messages/messageSender";
 import { MessageParser } from "../messages/messageParser";
+import { ImageLoader } from "../messages/imageLoader";
+import { VoiceTranscriber } from "../messages/voiceTranscriber";
+import { MediaGroupBuffer } from "../messages/mediaGroupBuffer";
 import { ApiService } from "../api/apiService";
+import { RequestScheduler } from "../api/requestScheduler";
+import {
+  createFallbackProvider,
+  createLlmProvider,
+} from "../api/providers/providerFactory";
 import { ContextManager } from "../context/contextManager";
+import { ConversationSummarizer } from "../context/conversationSummarizer";
+import { PostTopicCache } from "../context/postTopicCache";
+import { createStore } from "../storage/storageFactory";
+import { KeyValueStore } from "../storage/keyValueStore";
+import { CommandRegistry } from "../commands/commandRegistry";
+import { CommandHandlers } from "../commands/commandHandlers";
+import { ChatSettingsManager } from "../settings/chatSettingsManager";
+import { HOT_RELOADABLE_KEYS } from "../config/configLoader";
+import { BotMetrics } from "../metrics/botMetrics";
+import { UsageTracker } from "../usage/usageTracker";
+import {
+  Logger,
+  logger,
+  runWithLogContext,
+  setLogLevel,
+} from "../logger/logger";
 
 dotenv.config();
 
@@ -15,42 +48,115 @@ export class TelegramBot {
   private config: BotConfig;
   private botInfo: any;
   private startupTime: number;
+  // Апдейты в обработке: update_id → время начала
+  private activeUpdates: Map<number, number>;
+  private logger: Logger;
 
   // Зависимости
+  private metrics: BotMetrics;
+  private usageTracker: UsageTracker;
   private apiService: ApiService;
   private contextManager: ContextManager;
+  private chatSettings: ChatSettingsManager;
   private messageParser: MessageParser;
+  private imageLoader: ImageLoader;
+  private voiceTranscriber: VoiceTranscriber;
+  private mediaGroupBuffer: MediaGroupBuffer;
   private messageSender: MessageSender;
+  private summarizer: ConversationSummarizer;
   private messageHandlers: MessageHandlers;
+  private commandRegistry: CommandRegistry;
+  private commandHandlers: CommandHandlers;
+  // Хранилища, отложенные изменения которых сохраняются при остановке
+  private stores: KeyValueStore<unknown>[] = [];
 
   constructor(config: BotConfig) {
     this.config = config;
     this.bot = new Telegraf(this.config.BOT_TOKEN);
     this.startupTime = Date.now();
+    this.activeUpdates = new Map<number, number>();
+    this.logger = logger.child({ botName: this.config.BOT_NAME });
 
     // Создаем заглушку для информации о боте
     this.botInfo = { id: 0, username: "unknown" };
 
     // Инициализация зависимостей
+    this.metrics = new BotMetrics();
+    this.usageTracker = new UsageTracker(
+      this.config,
+      this.createStore<UsageTotals>("token-usage")
+    );
     this.apiService = new ApiService(
-      this.config.DEEPSEEK_API_KEY,
-      this.config.BOT_NAME
+      createLlmProvider(this.config),
+      this.config.BOT_NAME,
+      this.metrics,
+      this.usageTracker,
+      new RequestScheduler(this.config.LLM_QUEUE),
+      new PostTopicCache(
+        this.createStore<PostTopic>("post-topics"),
+        BOT_DEFAULTS.POSTS.TOPIC_CACHE_SIZE
+      ),
+      this.config.GENERATION,
+      createFallbackProvider(this.config),
+      this.config.CIRCUIT_BREAKER
+    );
+    this.contextManager = new ContextManager(
+      this.config.BOT_NAME,
+      this.createStore<UserContext>("user-contexts"),
+      this.createStore<UserContext>("post-contexts")
+    );
+    this.chatSettings = new ChatSettingsManager(
+      this.createStore<ChatSettings>("chat-settings")
     );
-    this.contextManager = new ContextManager(this.config.BOT_NAME);
     this.messageParser = new MessageParser();
-    this.messageSender = new MessageSender(this.config.BOT_NAME);
+    this.imageLoader = new ImageLoader(this.config, this.messageParser);
+    this.voiceTranscriber = new VoiceTranscriber(
+      this.config,
+      this.messageParser
+    );
+    this.mediaGroupBuffer = new MediaGroupBuffer(
+      this.config.BOT_NAME,
+      BOT_DEFAULTS.POSTS.MEDIA_GROUP_WINDOW_MS,
+      (ctx, messages) => this.handleMediaGroupPost(ctx, messages)
+    );
+    this.messageSender = new MessageSender(this.config.BOT_NAME, this.metrics);
+    this.summarizer = new ConversationSummarizer(
+      this.apiService,
+      this.contextManager,
+      this.config.BOT_NAME
+    );
 
     // Создаем обработчики сообщений сразу
     this.messageHandlers = new MessageHandlers(
       this.config,
       this.apiService,
       this.contextManager,
+      this.chatSettings,
       this.messageParser,
       this.messageSender,
+      this.summarizer,
+      this.usageTracker,
+      this.imageLoader,
+      this.voiceTranscriber,
       this.botInfo, // Пока с пустыми данными
       this.startupTime
     );
 
+    // Регистрируем команды
+    this.commandRegistry = new CommandRegistry(
+      this.messageParser,
+      this.config.BOT_NAME
+    );
+    this.commandHandlers = new CommandHandlers(
+      this.config,
+      this.contextManager,
+      this.chatSettings,
+      this.usageTracker,
+      this.commandRegistry,
+      this.botInfo
+    );
+    this.commandHandlers.registerAll();
+
     // Глобальный обработчик ошибок
     this.setupErrorHandler();
   }
@@ -61,7 +167,10 @@ export class TelegramBot {
    */
   private setupErrorHandler(): void {
     this.bot.catch((err, ctx) => {
-      console.error(`[${this.config.BOT_NAME}] Unhandled error:`, err);
+      this.logger.error("Unhandled error", {
+        updateId: ctx.update.update_id,
+        error: err,
+      });
       // Не пытаемся ответить, так как это может вызвать новую ошибку
     });
   }
@@ -74,17 +183,19 @@ export class TelegramBot {
     try {
       // Получаем информацию о боте
       this.botInfo = await this.bot.telegram.getMe();
-      console.log(
-        `[${this.config.BOT_NAME}] Бот @${this.botInfo.username} готов к работе`
-      );
+      this.logger.info(`Бот @${this.botInfo.username} готов к работе`);
 
-      // Обновляем информацию о боте в обработчиках сообщений
+      // Обновляем информацию о боте в обработчиках сообщений и команд
       this.messageHandlers.updateBotInfo(this.botInfo);
+      this.commandHandlers.updateBotInfo(this.botInfo);
+
+      // Публикуем список команд для подсказок в клиентах Telegram
+      await this.commandRegistry.registerWithTelegram(this.bot.telegram);
 
       // Настраиваем обработчики сообщений
       this.setupMessageHandlers();
     } catch (error) {
-      console.error(`[${this.config.BOT_NAME}] Error initializing bot:`, error);
+      this.logger.error("Error initializing bot", { error });
       throw error;
     }
   }
@@ -94,6 +205,26 @@ export class TelegramBot {
    * @private
    */
   private setupMessageHandlers(): void {
+    // Отмечаем время начала обработки каждого апдейта для проверки зависаний
+    // и связываем все записи лога при его обработке общим correlationId
+    this.bot.use(async (ctx, next) => {
+      const updateId = ctx.update.update_id;
+      this.activeUpdates.set(updateId, Date.now());
+
+      const logFields = {
+        correlationId: crypto.randomBytes(6).toString("hex"),
+        updateId,
+        chatId: ctx.chat?.id,
+        userId: ctx.from?.id,
+      };
+
+      try {
+        await runWithLogContext(logFields, () => next());
+      } finally {
+        this.activeUpdates.delete(updateId);
+      }
+    });
+
     this.bot.on("message", async (ctx) => {
       await this.handleIncomingMessage(ctx);
     });
@@ -109,11 +240,31 @@ export class TelegramBot {
       const message = ctx.message;
       if (!message) return;
 
+      // Части альбома из канала собираем в один пост, чтобы прокомментировать его один раз
+      if (
+        "media_group_id" in message &&
+        message.media_group_id &&
+        this.messageParser.isChannelPost(message)
+      ) {
+        this.mediaGroupBuffer.add(ctx);
+        return;
+      }
+
+      // Запоминаем других ботов группы, чтобы понимать, кому адресованы команды без суффикса
+      this.commandRegistry.trackOtherBots(ctx);
+
       // Получаем текст сообщения или подпись к медиа
-      const messageText = this.messageParser.getMessageText(message);
+      const messageText = this.messageParser.getMessageText(message) || "";
 
-      // Пропускаем если нет текста или подписи
-      if (!messageText) return;
+      // Пропускаем если нет ни текста или подписи, ни фото, которое увидит модель,
+      // ни голосового, которое можно расшифровать
+      if (
+        !messageText &&
+        !this.imageLoader.hasImage(message) &&
+        !this.voiceTranscriber.hasAudio(message)
+      ) {
+        return;
+      }
 
       // Получаем время сообщения (в секундах, преобразуем в миллисекунды)
       const messageTime = message.date * 1000;
@@ -139,30 +290,192 @@ export class TelegramBot {
       // Определяем, является ли сообщение постом канала
       const isChannelPost = this.messageParser.isChannelPost(message);
 
+      // Определяем, является ли чат личной перепиской с ботом
+      const isPrivateChat = this.messageParser.isPrivateChat(ctx.chat);
+
+      // В личном чате отвечаем только разрешенным пользователям
+      if (isPrivateChat && !this.isPrivateChatAllowed(message)) {
+        if (!isOldMessage) {
+          await this.rejectPrivateChat(ctx, message);
+        }
+        return;
+      }
+
+      // Команды обрабатываем отдельно от разговора с моделью;
+      // неизвестный текст со слэшем идет дальше как обычное сообщение
+      if (!isChannelPost && this.commandRegistry.isCommand(messageText)) {
+        const isAddressed = await this.commandRegistry.isAddressedToBot(
+          ctx,
+          messageText,
+          this.botInfo?.username,
+          isPrivateChat,
+          isReplyToBot
+        );
+
+        if (isAddressed && !isOldMessage) {
+          this.metrics.recordIncomingMessage("command");
+          await this.commandRegistry.dispatch(ctx, messageText);
+        } else {
+          this.metrics.recordIncomingMessage(
+            isAddressed ? "ignored_old" : "unaddressed"
+          );
+        }
+        return;
+      }
+
+      // Настройки чата: выключенный бот реагирует только на команды
+      const settings = this.chatSettings.get(ctx.chat!.id);
+      if (!settings.enabled) return;
+
+      // Должен ли бот отвечать на сообщение с учетом режима ответов чата
+      const isAddressedToBot = this.isAddressedToBot(
+        settings,
+        isReplyToBot,
+        isBotMentioned,
+        isPrivateChat
+      );
+
+      this.metrics.recordIncomingMessage(
+        this.getMessageTrigger(
+          isChannelPost,
+          isAddressedToBot,
+          isOldMessage,
+          isPrivateChat,
+          isReplyToBot,
+          isBotMentioned
+        )
+      );
+
       // Если это сообщение - пост из канала (всегда отвечаем, даже на старые)
-      if (
-        isChannelPost &&
-        Math.random() < BOT_DEFAULTS.POSTS.COMMENT_PROBABILITY
-      ) {
+      if (isChannelPost && Math.random() < settings.commentProbability) {
         await this.messageHandlers.commentPost(ctx, messageText);
       }
-      // Если это ответ на сообщение бота или упомянули бота конкретно,
-      // и сообщение пришло после запуска бота
-      else if ((isReplyToBot || isBotMentioned) && !isOldMessage) {
+      // Если сообщение адресовано боту и пришло после запуска бота
+      else if (!isChannelPost && isAddressedToBot && !isOldMessage) {
         await this.messageHandlers.handleDirectMessage(ctx, messageText);
       }
       // Если это старое сообщение, логируем его для отладки
-      else if (isOldMessage && (isReplyToBot || isBotMentioned)) {
+      else if (!isChannelPost && isOldMessage && isAddressedToBot) {
         this.logIgnoredOldMessage(message, messageText);
       }
     } catch (error) {
-      console.error(
-        `[${this.config.BOT_NAME}] Error in message handler:`,
-        error
+      this.logger.error("Error in message handler", { error });
+    }
+  }
+
+  /**
+   * Комментирует собранный альбом из канала как один пост
+   * @param ctx Контекст первой части альбома
+   * @param messages Все части альбома по порядку
+   * @private
+   */
+  private async handleMediaGroupPost(
+    ctx: Context,
+    messages: any[]
+  ): Promise<void> {
+    const settings = this.chatSettings.get(ctx.chat!.id);
+    if (!settings.enabled) return;
+
+    this.metrics.recordIncomingMessage("channel_post");
+
+    if (Math.random() < settings.commentProbability) {
+      await this.messageHandlers.commentPost(
+        ctx,
+        this.messageParser.getMediaGroupText(messages),
+        messages
       );
     }
   }
 
+  /**
+   * Определяет, должен ли бот ответить на сообщение с учетом режима ответов чата
+   * @param settings Настройки чата
+   * @param isReplyToBot Является ли сообщение ответом на сообщение бота
+   * @param isBotMentioned Упомянут ли бот
+   * @param isPrivateChat Является ли чат личным
+   * @returns true, если сообщение нужно передать модели
+   * @private
+   */
+  private isAddressedToBot(
+    settings: ChatSettings,
+    isReplyToBot: boolean,
+    isBotMentioned: boolean,
+    isPrivateChat: boolean
+  ): boolean {
+    if (isPrivateChat) return true;
+
+    switch (settings.replyMode) {
+      case "all":
+        return true;
+      case "reply":
+        return isReplyToBot;
+      default:
+        return isReplyToBot || isBotMentioned;
+    }
+  }
+
+  /**
+   * Определяет причину обработки или пропуска сообщения для метрик
+   * @param isChannelPost Является ли сообщение постом канала
+   * @param isAddressedToBot Адресовано ли сообщение боту
+   * @param isOldMessage Пришло ли сообщение до порога обработки
+   * @param isPrivateChat Является ли чат личным
+   * @param isReplyToBot Является ли сообщение ответом на сообщение бота
+   * @param isBotMentioned Упомянут ли бот
+   * @returns Тип триггера
+   * @private
+   */
+  private getMessageTrigger(
+    isChannelPost: boolean,
+    isAddressedToBot: boolean,
+    isOldMessage: boolean,
+    isPrivateChat: boolean,
+    isReplyToBot: boolean,
+    isBotMentioned: boolean
+  ): MessageTrigger {
+    if (isChannelPost) return "channel_post";
+    if (!isAddressedToBot) return "unaddressed";
+    if (isOldMessage) return "ignored_old";
+    if (isPrivateChat) return "private";
+    if (isReplyToBot) return "reply";
+    if (isBotMentioned) return "mention";
+    return "other";
+  }
+
+  /**
+   * Проверяет, разрешено ли пользователю общаться с ботом в личном чате
+   * @param message Объект сообщения
+   * @returns true, если личные чаты включены и пользователь есть в списке (если он задан)
+   * @private
+   */
+  private isPrivateChatAllowed(message: any): boolean {
+    const privateChat = this.config.PRIVATE_CHAT;
+    if (privateChat?.ENABLED === false) return false;
+
+    const allowedIds = privateChat?.ALLOWED_USER_IDS;
+    if (!allowedIds || allowedIds.length === 0) return true;
+
+    return !!message.from && allowedIds.includes(message.from.id);
+  }
+
+  /**
+   * Сообщает пользователю, что личный чат с ботом ему недоступен
+   * @param ctx Контекст Telegraf
+   * @param message Объект сообщения
+   * @private
+   */
+  private async rejectPrivateChat(ctx: Context, message: any): Promise<void> {
+    this.logger.info("Отклонен личный чат", {
+      username: message.from?.username,
+    });
+
+    await this.messageSender.sendErrorMessage(
+      ctx,
+      "Это личный бот, общаться со мной в личке могут только его владельцы.",
+      message.message_id
+    );
+  }
+
   /**
    * Возвращает пороговое время для игнорирования старых сообщений
    * @returns Временная метка (timestamp) в миллисекундах
@@ -182,48 +495,134 @@ export class TelegramBot {
    * @private
    */
   private logIgnoredOldMessage(message: any, messageText: string): void {
-    console.log(
-      `[${this.config.BOT_NAME}] Игнорирую старое сообщение от ${
-        message.from?.username || message.from?.id
-      }: ${messageText.substring(0, 50)}...`
-    );
+    this.logger.debug("Игнорирую старое сообщение", {
+      username: message.from?.username,
+      text: `${messageText.substring(0, 50)}...`,
+    });
   }
 
   /**
    * Запускает бота
+   * Promise разрешается, когда бот подключился к Telegram и начинает опрос.
+   * Ошибки опроса после запуска передаются в onPollingError
+   * @param onPollingError Вызывается, если опрос обновлений завершился ошибкой
    * @public
    */
-  public async launch(): Promise<void> {
+  public async launch(onPollingError: (error: unknown) => void): Promise<void> {
     try {
       // Инициализируем бота и настраиваем обработчики
       await this.initialize();
 
-      // Запускаем бота
-      await this.bot.launch({
-        allowedUpdates: ["message"],
+      // При long polling bot.launch() разрешается только после остановки бота,
+      // поэтому момент запуска определяем по колбэку onLaunch
+      await new Promise<void>((resolve, reject) => {
+        let launched = false;
+
+        this.bot
+          .launch({ allowedUpdates: ["message"] }, () => {
+            launched = true;
+            resolve();
+          })
+          .catch((err) => {
+            if (launched) {
+              onPollingError(err);
+            } else {
+              reject(err);
+            }
+          });
       });
 
       // Обновляем время запуска после успешного запуска
       this.startupTime = Date.now();
 
-      console.log(
-        `[${this.config.BOT_NAME}] Бот успешно запущен в ${new Date(
-          this.startupTime
-        ).toLocaleString()}`
-      );
-    } catch (err) {
-      console.error(`[${this.config.BOT_NAME}] Ошибка запуска бота:`, err);
-      throw err;
+      this.logger.info("Бот успешно запущен", {
+        startedAt: new Date(this.startupTime).toISOString(),
+      });
+    } catch (error) {
+      this.logger.error("Ошибка запуска бота", { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Проверяет, что обработка апдейтов не зависла
+   * Telegraf не запрашивает новые апдейты, пока не обработана текущая пачка,
+   * поэтому зависший обработчик останавливает весь опрос
+   * @returns true, если ни один апдейт не обрабатывается дольше допустимого
+   * @public
+   */
+  public isHealthy(): boolean {
+    const now = Date.now();
+
+    for (const startedAt of this.activeUpdates.values()) {
+      if (now - startedAt > BOT_DEFAULTS.WORKER.UPDATE_STUCK_TIMEOUT_MS) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Возвращает показатели бота для отправки мастеру
+   * @returns Снимок показателей
+   * @public
+   */
+  public getMetricsSnapshot(): WorkerMetricsSnapshot {
+    return {
+      activeContexts: this.contextManager.getActiveContextsCount(),
+      uptimeMs: Date.now() - this.startupTime,
+      memoryRssBytes: process.memoryUsage().rss,
+      families: this.metrics.snapshot(),
+      usage: this.usageTracker.getReport(),
+    };
+  }
+
+  /**
+   * Применяет новую конфигурацию без перезапуска
+   * Меняются только поля из HOT_RELOADABLE_KEYS, остальные требуют перезапуска воркера
+   * @param config Новая конфигурация бота
+   * @public
+   */
+  public updateConfig(config: BotConfig): void {
+    // Объект конфигурации общий для всех обработчиков, поэтому меняем его на месте
+    const target = this.config as unknown as Record<string, unknown>;
+    for (const key of HOT_RELOADABLE_KEYS) {
+      if (config[key] === undefined) {
+        delete target[key];
+      } else {
+        target[key] = config[key];
+      }
     }
+
+    this.apiService.updateGeneration(this.config.GENERATION);
+    setLogLevel(this.config.LOG_LEVEL);
+
+    this.logger.info("Конфигурация обновлена на лету");
   }
 
   /**
-   * Останавливает бота
+   * Останавливает бота и сохраняет отложенные изменения хранилищ
    * @param signal Сигнал остановки
+   * @returns Promise, который разрешается после сохранения
    * @public
    */
-  public stop(signal?: string): void {
-    console.log(`[${this.config.BOT_NAME}] Останавливаю бота...`);
+  public async stop(signal?: string): Promise<void> {
+    this.logger.info("Останавливаю бота");
+    this.mediaGroupBuffer.clear();
     this.bot.stop(signal);
+    await Promise.all(this.stores.map((store) => store.flush()));
+  }
+
+  /**
+   * Создает хранилище бота и запоминает его для сохранения при остановке
+   * @param name Имя набора записей
+   * @returns Экземпляр хранилища
+   * @private
+   */
+  private createStore<T>(name: string): KeyValueStore<T> {
+    const store = createStore<T>(this.config, name);
+    this.stores.push(store);
+    return store;
   }
 }
@@ -1,41 +1,135 @@
 import { TelegramBot } from "./bot"; // Импортируйте класс TelegramBot
-import { BotConfig } from "../types"; // Создайте файл с типами
+import { BOT_DEFAULTS } from "../constants";
+import {
+  BotConfig,
+  MasterToWorkerMessage,
+  WorkerToMasterMessage,
+} from "../types"; // Создайте файл с типами
+import { logger, setLogLevel } from "../logger/logger";
 
 // Получаем конфигурацию бота из аргументов командной строки
 const configString = process.argv[2];
 const config: BotConfig = JSON.parse(configString);
 
+// Уровень логирования задается для каждого бота отдельно
+setLogLevel(config.LOG_LEVEL);
+const workerLogger = logger.child({ botName: config.BOT_NAME });
+
+/**
+ * Отправляет сообщение мастеру, если канал IPC открыт
+ * @param message Сообщение протокола
+ */
+function sendToMaster(message: WorkerToMasterMessage): void {
+  if (process.connected) {
+    process.send?.(message);
+  }
+}
+
+/**
+ * Сообщает мастеру о фатальной ошибке и завершает процесс
+ * @param error Объект ошибки
+ */
+function exitWithFatalError(error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  sendToMaster({ type: "fatal-error", message: err.message, stack: err.stack });
+
+  // Даем сообщению уйти до завершения процесса
+  setTimeout(() => {
+    process.exit(1);
+  }, 100);
+}
+
+// Таймеры отчетов мастеру; держат процесс живым, поэтому останавливаются при завершении
+const reportingTimers: NodeJS.Timeout[] = [];
+let isShuttingDown = false;
+
+/**
+ * Запускает периодическую отправку heartbeat и показателей
+ * Heartbeat не отправляется, если обработка апдейтов зависла,
+ * и мастер перезапустит воркер по таймауту
+ */
+function startReporting(): void {
+  reportingTimers.push(
+    setInterval(() => {
+      if (bot.isHealthy()) {
+        sendToMaster({ type: "heartbeat", timestamp: Date.now() });
+      }
+    }, BOT_DEFAULTS.WORKER.HEARTBEAT_INTERVAL_MS),
+    setInterval(() => {
+      sendToMaster({ type: "metrics", snapshot: bot.getMetricsSnapshot() });
+    }, BOT_DEFAULTS.WORKER.METRICS_INTERVAL_MS)
+  );
+}
+
+/**
+ * Останавливает бота, сохраняет хранилища и завершает процесс
+ * @param signal Сигнал завершения, если остановка вызвана им
+ * @param ackToMaster Подтвердить ли мастеру завершение по его сообщению
+ */
+async function shutdown(signal?: string, ackToMaster = false): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  reportingTimers.forEach((timer) => clearInterval(timer));
+
+  try {
+    // Останавливаем бота корректно, дожидаясь записи хранилищ
+    await bot.stop(signal);
+  } catch (error) {
+    workerLogger.error("Ошибка остановки бота", { error });
+  }
+
+  if (ackToMaster) {
+    sendToMaster({ type: "shutdown-ack" });
+
+    // Даем подтверждению уйти до завершения процесса
+    setTimeout(() => {
+      process.exit(0);
+    }, 500);
+    return;
+  }
+
+  process.exit(0);
+}
+
 // Создаем и запускаем бота
 const bot = new TelegramBot(config);
 bot
-  .launch()
+  .launch((error) => {
+    workerLogger.error("Опрос обновлений остановлен", { error });
+    exitWithFatalError(error);
+  })
   .then(() => {
-    console.log(`[Worker] Бот ${config.BOT_NAME} запущен`);
+    workerLogger.info("Бот запущен");
+
+    // Сообщаем о готовности только после успешного запуска
+    sendToMaster({ type: "ready", pid: process.pid });
+    sendToMaster({ type: "metrics", snapshot: bot.getMetricsSnapshot() });
+    startReporting();
   })
-  .catch((err) => {
-    console.error(`[Worker] Ошибка запуска бота ${config.BOT_NAME}:`, err);
-    process.exit(1);
+  .catch((error) => {
+    workerLogger.error("Ошибка запуска бота", { error });
+    exitWithFatalError(error);
   });
 
 // Обработка сигналов завершения
-process.on("SIGINT", () => bot.stop("SIGINT"));
-process.on("SIGTERM", () => bot.stop("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
 
-process.on("message", async (message) => {
-  if (message === "shutdown") {
-    console.log(
-      `[${config.BOT_NAME}] Получено сообщение о завершении, останавливаю бота...`
-    );
+process.on("uncaughtException", (error) => {
+  workerLogger.error("Необработанное исключение", { error });
+  exitWithFatalError(error);
+});
 
-    // Останавливаем бота корректно
-    await bot.stop();
+process.on("message", async (message: MasterToWorkerMessage) => {
+  // Мастер передал новую конфигурацию из измененного файла
+  if (message?.type === "config-update") {
+    bot.updateConfig(message.config);
+    return;
+  }
 
-    // Выходим из процесса
-    setTimeout(() => {
-      process.exit(0);
-    }, 500);
+  if (message?.type === "shutdown") {
+    workerLogger.info("Получено сообщение о завершении, останавливаю бота");
+    await shutdown(undefined, true);
   }
 });
-
-// Отправляем сообщение о готовности после успешной инициализации
-process.send?.("ready");
@@ -0,0 +1,347 @@
+import { Context } from "telegraf";
+import { BOT_DEFAULTS } from "../constants";
+import { BotConfig, ChatSettings, ReplyMode, UsageReportEntry } from "../types";
+import { ContextManager } from "../context/contextManager";
+import { createUserKey } from "../context/contextKeys";
+import { ChatSettingsManager } from "../settings/chatSettingsManager";
+import { UsageTracker } from "../usage/usageTracker";
+import { CommandHandler, CommandRegistry } from "./commandRegistry";
+import { logger } from "../logger/logger";
+
+const REPLY_MODES: ReplyMode[] = ["mention", "reply", "all"];
+
+/**
+ * Класс с обработчиками стандартных команд бота
+ */
+export class CommandHandlers {
+  private config: BotConfig;
+  private contextManager: ContextManager;
+  private chatSettings: ChatSettingsManager;
+  private usageTracker: UsageTracker;
+  private registry: CommandRegistry;
+  private botInfo: any;
+
+  constructor(
+    config: BotConfig,
+    contextManager: ContextManager,
+    chatSettings: ChatSettingsManager,
+    usageTracker: UsageTracker,
+    registry: CommandRegistry,
+    botInfo: any
+  ) {
+    this.config = config;
+    this.contextManager = contextManager;
+    this.chatSettings = chatSettings;
+    this.usageTracker = usageTracker;
+    this.registry = registry;
+    this.botInfo = botInfo;
+  }
+
+  /**
+   * Регистрирует стандартные команды в реестре
+   */
+  public registerAll(): void {
+    this.registry.register("start", "Начать общение", (ctx) => this.start(ctx));
+    this.registry.register("help", "Список команд", (ctx) => this.help(ctx));
+    this.registry.register("reset", "Забыть нашу беседу", (ctx) =>
+      this.reset(ctx)
+    );
+    this.registry.register("about", "О боте", (ctx) => this.about(ctx));
+
+    // Настройки чата (изменять могут только администраторы)
+    this.registry.register("settings", "Настройки бота в этом чате", (ctx) =>
+      this.showSettings(ctx)
+    );
+    this.registry.register(
+      "mute",
+      "Выключить бота в этом чате (админы)",
+      this.adminOnly((ctx) => this.setEnabled(ctx, false))
+    );
+    this.registry.register(
+      "unmute",
+      "Включить бота в этом чате (админы)",
+      this.adminOnly((ctx) => this.setEnabled(ctx, true))
+    );
+    this.registry.register(
+      "comments",
+      "Вероятность комментария к посту, 0–1 (админы)",
+      this.adminOnly((ctx, args) => this.setCommentProbability(ctx, args))
+    );
+    this.registry.register(
+      "replymode",
+      "Когда отвечать: mention, reply или all (админы)",
+      this.adminOnly((ctx, args) => this.setReplyMode(ctx, args))
+    );
+    this.registry.register(
+      "language",
+      "Язык ответов или off (админы)",
+      this.adminOnly((ctx, args) => this.setLanguage(ctx, args))
+    );
+    this.registry.register(
+      "persona",
+      "Дополнение к характеру бота или off (админы)",
+      this.adminOnly((ctx, args) => this.setPersona(ctx, args))
+    );
+    this.registry.register(
+      "usage",
+      "Расход токенов в этом чате (админы)",
+      this.adminOnly((ctx) => this.showUsage(ctx))
+    );
+  }
+
+  public updateBotInfo(botInfo: any): void {
+    this.botInfo = botInfo;
+  }
+
+  /**
+   * Обрабатывает команду /start
+   */
+  private async start(ctx: Context): Promise<void> {
+    const text =
+      this.config.COMMANDS?.START_MESSAGE ||
+      `Привет! Я ${this.config.BOT_NAME}. Упомяни меня или ответь на мое сообщение, чтобы поговорить. Список команд: /help`;
+    await this.replyTo(ctx, text);
+  }
+
+  /**
+   * Обрабатывает команду /help
+   */
+  private async help(ctx: Context): Promise<void> {
+    const lines = this.registry
+      .list()
+      .map((command) => `/${command.name} — ${command.description}`);
+    await this.replyTo(ctx, `Доступные команды:\n${lines.join("\n")}`);
+  }
+
+  /**
+   * Обрабатывает команду /reset — очищает контекст вызвавшего пользователя
+   */
+  private async reset(ctx: Context): Promise<void> {
+    const userKey = createUserKey(ctx, this.botInfo?.id);
+    const existed = this.contextManager.deleteUserContext(userKey);
+
+    await this.replyTo(
+      ctx,
+      existed ? "Все, я забыл нашу беседу." : "Мы еще ни о чем не говорили."
+    );
+  }
+
+  /**
+   * Обрабатывает команду /about
+   */
+  private async about(ctx: Context): Promise<void> {
+    const text =
+      this.config.COMMANDS?.ABOUT_MESSAGE ||
+      `${this.config.BOT_NAME} (@${this.botInfo?.username}) — бот для болтовни в чатах и комментариев к постам каналов.`;
+    await this.replyTo(ctx, text);
+  }
+
+  /**
+   * Обрабатывает команду /settings — показывает настройки чата
+   */
+  private async showSettings(ctx: Context): Promise<void> {
+    if (!ctx.chat) return;
+
+    await this.replyTo(
+      ctx,
+      this.formatSettings(this.chatSettings.get(ctx.chat.id))
+    );
+  }
+
+  /**
+   * Обрабатывает команды /mute и /unmute
+   */
+  private async setEnabled(ctx: Context, enabled: boolean): Promise<void> {
+    this.chatSettings.update(ctx.chat!.id, { enabled });
+    await this.replyTo(
+      ctx,
+      enabled ? "Я снова с вами." : "Молчу. Чтобы вернуть меня: /unmute"
+    );
+  }
+
+  /**
+   * Обрабатывает команду /comments <0..1>
+   */
+  private async setCommentProbability(
+    ctx: Context,
+    args: string
+  ): Promise<void> {
+    const value = Number(args.replace(",", "."));
+
+    if (!args || !Number.isFinite(value) || value < 0 || value > 1) {
+      await this.replyTo(
+        ctx,
+        "Укажи вероятность от 0 до 1, например /comments 0.3"
+      );
+      return;
+    }
+
+    this.chatSettings.update(ctx.chat!.id, { commentProbability: value });
+    await this.replyTo(
+      ctx,
+      `Буду комментировать посты с вероятностью ${Math.round(value * 100)}%.`
+    );
+  }
+
+  /**
+   * Обрабатывает команду /replymode <mention|reply|all>
+   */
+  private async setReplyMode(ctx: Context, args: string): Promise<void> {
+    const mode = args.toLowerCase() as ReplyMode;
+
+    if (!REPLY_MODES.includes(mode)) {
+      await this.replyTo(
+        ctx,
+        "Режимы: mention — на упоминания и ответы, reply — только на ответы, all — на все сообщения."
+      );
+      return;
+    }
+
+    this.chatSettings.update(ctx.chat!.id, { replyMode: mode });
+    await this.replyTo(ctx, `Режим ответов: ${mode}.`);
+  }
+
+  /**
+   * Обрабатывает команду /language <язык|off>
+   */
+  private async setLanguage(ctx: Context, args: string): Promise<void> {
+    if (!args) {
+      await this.replyTo(
+        ctx,
+        "Укажи язык, например /language English, или /language off"
+      );
+      return;
+    }
+
+    const language = args.toLowerCase() === "off" ? undefined : args;
+    this.chatSettings.update(ctx.chat!.id, { language });
+    await this.replyTo(
+      ctx,
+      language ? `Отвечаю на языке: ${language}.` : "Язык ответов сброшен."
+    );
+  }
+
+  /**
+   * Обрабатывает команду /persona <текст|off>
+   */
+  private async setPersona(ctx: Context, args: string): Promise<void> {
+    if (!args) {
+      await this.replyTo(
+        ctx,
+        "Опиши, каким мне быть в этом чате, или /persona off"
+      );
+      return;
+    }
+
+    const persona = args.toLowerCase() === "off" ? undefined : args;
+    this.chatSettings.update(ctx.chat!.id, { persona });
+    await this.replyTo(
+      ctx,
+      persona ? "Понял, буду таким." : "Вернулся к обычному характеру."
+    );
+  }
+
+  /**
+   * Обрабатывает команду /usage — показывает расход токенов чата и лимиты
+   */
+  private async showUsage(ctx: Context): Promise<void> {
+    const usage = this.usageTracker.getChatUsage(ctx.chat!.id);
+    const limits = this.config.USAGE;
+
+    await this.replyTo(
+      ctx,
+      [
+        "Расход токенов в этом чате:",
+        this.formatUsage("Сегодня", usage.day, limits?.CHAT_DAILY_TOKENS),
+        this.formatUsage("За месяц", usage.month, limits?.CHAT_MONTHLY_TOKENS),
+      ].join("\n")
+    );
+  }
+
+  /**
+   * Оборачивает обработчик проверкой прав администратора чата
+   * @param handler Обработчик команды
+   * @returns Обработчик, который отказывает не-администраторам
+   */
+  private adminOnly(handler: CommandHandler): CommandHandler {
+    return async (ctx, args) => {
+      if (!ctx.chat || !(await this.isChatAdmin(ctx))) {
+        await this.replyTo(ctx, "Эта команда только для администраторов чата.");
+        return;
+      }
+
+      await handler(ctx, args);
+    };
+  }
+
+  /**
+   * Проверяет, является ли автор команды администратором чата
+   * @param ctx Контекст Telegraf
+   * @returns true, если автор — владелец или администратор
+   */
+  private async isChatAdmin(ctx: Context): Promise<boolean> {
+    const chat = ctx.chat!;
+    const message: any = ctx.message;
+
+    // В личном чате пользователь управляет своими настройками сам
+    if (chat.type === "private") return true;
+
+    // Анонимный администратор пишет от имени самого чата
+    if (message?.sender_chat?.id === chat.id) return true;
+
+    if (!message?.from) return false;
+
+    try {
+      const member = await ctx.telegram.getChatMember(chat.id, message.from.id);
+      return member.status === "creator" || member.status === "administrator";
+    } catch (error) {
+      logger.error("Error checking chat admin", {
+        botName: this.config.BOT_NAME,
+        error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Форматирует настройки чата для вывода
+   */
+  private formatSettings(settings: ChatSettings): string {
+    return [
+      "Настройки бота в этом чате:",
+      `Включен: ${settings.enabled ? "да" : "нет"}`,
+      `Комментарии к постам: ${Math.round(settings.commentProbability * 100)}%`,
+      `Режим ответов: ${settings.replyMode}`,
+      `Язык: ${settings.language || "по умолчанию"}`,
+      `Характер: ${settings.persona || "по умолчанию"}`,
+    ].join("\n");
+  }
+
+  /**
+   * Форматирует расход за период для вывода
+   */
+  private formatUsage(
+    title: string,
+    entry: UsageReportEntry,
+    limit?: number
+  ): string {
+    let line = `${title}: ${entry.totalTokens} (запросов: ${entry.requests})`;
+    if (limit) line += `, лимит ${limit}`;
+    if (entry.cost !== null) {
+      const currency =
+        this.config.USAGE?.CURRENCY || BOT_DEFAULTS.USAGE.CURRENCY;
+      line += `, ${entry.cost.toFixed(4)} ${currency}`;
+    }
+    return line;
+  }
+
+  /**
+   * Отвечает на сообщение с командой
+   */
+  private async replyTo(ctx: Context, text: string): Promise<void> {
+    await ctx.reply(text, {
+      // @ts-ignore
+      reply_to_message_id: ctx.message?.message_id,
+    });
+  }
+}
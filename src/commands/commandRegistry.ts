@@ -0,0 +1,219 @@
+import { Context, Telegram } from "telegraf";
+import { MessageParser } from "../messages/messageParser";
+import { Logger, logger } from "../logger/logger";
+
+export type CommandHandler = (ctx: Context, args: string) => Promise<void>;
+
+export interface BotCommand {
+  name: string;
+  description: string;
+  handler: CommandHandler;
+}
+
+/**
+ * Класс для регистрации и маршрутизации команд бота
+ * Отвечает за разбор команды, проверку адресата и вызов обработчика
+ */
+export class CommandRegistry {
+  private commands: Map<string, BotCommand>;
+  private messageParser: MessageParser;
+  private logger: Logger;
+  // Группы, где замечены другие боты: команда без суффикса может быть адресована им
+  private chatsWithOtherBots: Set<number> = new Set();
+  // Группы, администраторы которых уже проверены на наличие ботов
+  private checkedChats: Set<number> = new Set();
+
+  constructor(messageParser: MessageParser, botName: string) {
+    this.commands = new Map<string, BotCommand>();
+    this.messageParser = messageParser;
+    this.logger = logger.child({ botName });
+  }
+
+  /**
+   * Регистрирует команду
+   * @param name Название команды без слэша
+   * @param description Описание для списка команд Telegram
+   * @param handler Обработчик команды
+   */
+  public register(
+    name: string,
+    description: string,
+    handler: CommandHandler
+  ): void {
+    this.commands.set(name.toLowerCase(), { name, description, handler });
+  }
+
+  /**
+   * Возвращает список зарегистрированных команд
+   * @returns Массив команд в порядке регистрации
+   */
+  public list(): BotCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Проверяет, нужно ли обработать сообщение как команду
+   * Командой считается зарегистрированная команда или любая команда
+   * с суффиксом @botname. Остальной текст со слэшем — обычное сообщение
+   * @param text Текст сообщения
+   * @returns true, если сообщение нужно маршрутизировать как команду
+   */
+  public isCommand(text: string): boolean {
+    const name = this.messageParser.extractCommand(text);
+    if (!name) return false;
+
+    return (
+      this.commands.has(name) ||
+      this.messageParser.extractCommandTarget(text) !== null
+    );
+  }
+
+  /**
+   * Проверяет, адресована ли команда этому боту
+   * Команда с суффиксом @botname адресована только указанному боту.
+   * Без суффикса в группе команда принимается в ответ на сообщение бота
+   * или если других ботов в группе не замечено, чтобы несколько ботов
+   * в одном чате не реагировали одновременно
+   * @param ctx Контекст Telegraf
+   * @param text Текст команды
+   * @param botUsername Имя пользователя бота
+   * @param isPrivateChat Является ли чат личным
+   * @param isReplyToBot Является ли сообщение ответом на сообщение бота
+   * @returns true, если команду должен обработать этот бот
+   */
+  public async isAddressedToBot(
+    ctx: Context,
+    text: string,
+    botUsername: string,
+    isPrivateChat: boolean,
+    isReplyToBot: boolean
+  ): Promise<boolean> {
+    const target = this.messageParser.extractCommandTarget(text);
+
+    if (target) {
+      return (
+        !!botUsername && target.toLowerCase() === botUsername.toLowerCase()
+      );
+    }
+
+    if (isPrivateChat || isReplyToBot) return true;
+
+    return !(await this.hasOtherBots(ctx));
+  }
+
+  /**
+   * Запоминает признаки других ботов в группе: их добавление в чат,
+   * ответы на их сообщения и команды с их именем
+   * @param ctx Контекст Telegraf с сообщением
+   */
+  public trackOtherBots(ctx: Context): void {
+    const message: any = ctx.message;
+    const chatId = ctx.chat?.id;
+    if (!message || !chatId || this.messageParser.isPrivateChat(ctx.chat)) {
+      return;
+    }
+
+    const botId = ctx.botInfo?.id;
+    const isOtherBot = (user: any): boolean =>
+      !!user?.is_bot && user.id !== botId;
+
+    // Ушедший бот мог быть единственным другим: группу проверим заново
+    if (isOtherBot(message.left_chat_member)) {
+      this.chatsWithOtherBots.delete(chatId);
+      this.checkedChats.delete(chatId);
+      return;
+    }
+
+    const target = this.messageParser.extractCommandTarget(
+      this.messageParser.getMessageText(message) || ""
+    );
+    const botUsername = ctx.botInfo?.username;
+
+    if (
+      (message.new_chat_members || []).some(isOtherBot) ||
+      isOtherBot(message.reply_to_message?.from) ||
+      (target && target.toLowerCase() !== botUsername?.toLowerCase())
+    ) {
+      this.chatsWithOtherBots.add(chatId);
+    }
+  }
+
+  /**
+   * Выполняет команду из текста сообщения
+   * @param ctx Контекст Telegraf
+   * @param text Текст сообщения с командой
+   * @returns Promise, который разрешается после выполнения команды
+   */
+  public async dispatch(ctx: Context, text: string): Promise<void> {
+    const name = this.messageParser.extractCommand(text);
+    if (!name) return;
+
+    const command = this.commands.get(name);
+    if (!command) {
+      await ctx.reply(
+        "Не знаю такой команды. Список команд: /help",
+        // @ts-ignore
+        { reply_to_message_id: ctx.message?.message_id }
+      );
+      return;
+    }
+
+    const args = this.messageParser.extractCommandArgs(text);
+    this.logger.info(`Команда /${name}`, { args: args || undefined });
+
+    try {
+      await command.handler(ctx, args);
+    } catch (error) {
+      this.logger.error(`Error in command /${name}`, { error });
+    }
+  }
+
+  /**
+   * Проверяет, есть ли в группе другие боты
+   * Всех участников Telegram не отдает, поэтому при первой команде
+   * проверяются администраторы, а дальше учитываются замеченные признаки
+   * @param ctx Контекст Telegraf
+   * @returns true, если в группе замечены другие боты
+   * @private
+   */
+  private async hasOtherBots(ctx: Context): Promise<boolean> {
+    const chatId = ctx.chat!.id;
+
+    if (!this.checkedChats.has(chatId)) {
+      this.checkedChats.add(chatId);
+
+      try {
+        const admins = await ctx.telegram.getChatAdministrators(chatId);
+        if (
+          admins.some(({ user }) => user.is_bot && user.id !== ctx.botInfo?.id)
+        ) {
+          this.chatsWithOtherBots.add(chatId);
+        }
+      } catch (error) {
+        this.checkedChats.delete(chatId);
+        this.logger.warn("Не удалось проверить ботов в группе", { error });
+      }
+    }
+
+    return this.chatsWithOtherBots.has(chatId);
+  }
+
+  /**
+   * Регистрирует список команд в Telegram для подсказок в клиенте
+   * @param telegram Экземпляр Telegram API
+   * @returns Promise, который разрешается после регистрации
+   */
+  public async registerWithTelegram(telegram: Telegram): Promise<void> {
+    try {
+      await telegram.setMyCommands(
+        this.list().map((command) => ({
+          command: command.name,
+          description: command.description,
+        }))
+      );
+    } catch (error) {
+      // Без списка команд бот продолжает работать
+      this.logger.error("Error registering commands", { error });
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BotConfig } from "../types";
+import { validateBotConfig } from "./configValidator";
+import { logger } from "../logger/logger";
+
+// Поля, изменения которых воркер применяет без перезапуска
+export const HOT_RELOADABLE_KEYS: (keyof BotConfig)[] = [
+  "SYSTEM_PROMPT",
+  "POST_COMMENT_PROMPT_TEMPLATE",
+  "GENERATION",
+  "CONTEXT_TOKEN_BUDGET",
+  "COMMANDS",
+  "PRIVATE_CHAT",
+  "USAGE",
+  "VISION",
+  "TRANSCRIPTION",
+  "IGNORE_MESSAGES_OLDER_THAN_MINS",
+  "LOG_LEVEL",
+];
+
+/**
+ * Читает и проверяет файл конфигурации бота
+ * Ошибки логируются, чтобы некорректный файл не мешал остальным ботам
+ * @param configsFolder Папка с конфигурациями
+ * @param file Имя файла
+ * @returns Конфигурация бота или null, если файл некорректен
+ */
+export function readBotConfigFile(
+  configsFolder: string,
+  file: string
+): BotConfig | null {
+  try {
+    const configData = fs.readFileSync(path.join(configsFolder, file), "utf8");
+    const config: BotConfig = JSON.parse(configData);
+
+    // Проверка наличия всех необходимых полей
+    if (!config.BOT_TOKEN) {
+      logger.error("В конфигурации отсутствует BOT_TOKEN", { file });
+      return null;
+    }
+
+    const configError = validateBotConfig(config);
+    if (configError) {
+      logger.error(`Некорректная конфигурация: ${configError}`, { file });
+      return null;
+    }
+
+    if (!config.BOT_NAME) {
+      config.BOT_NAME = path.basename(file, ".json");
+    }
+
+    return config;
+  } catch (error) {
+    logger.error("Ошибка при загрузке конфигурации", { file, error });
+    return null;
+  }
+}
+
+/**
+ * Проверяет, можно ли применить новую конфигурацию без перезапуска воркера
+ * @param previous Текущая конфигурация
+ * @param next Новая конфигурация
+ * @returns true, если отличаются только поля из HOT_RELOADABLE_KEYS
+ */
+export function isHotReloadable(previous: BotConfig, next: BotConfig): boolean {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<
+    keyof BotConfig
+  >;
+
+  for (const key of keys) {
+    if (HOT_RELOADABLE_KEYS.includes(key)) continue;
+
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      return false;
+    }
+  }
+
+  return true;
+}
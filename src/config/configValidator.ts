@@ -0,0 +1,517 @@
+import { BotConfig, GenerationParams } from "../types";
+import { LOG_LEVELS } from "../logger/logger";
+
+const GENERATION_OVERRIDE_KEYS = [
+  "DIRECT_REPLY",
+  "POST_COMMENT",
+  "TOPIC_INFERENCE",
+  "SUMMARY",
+] as const;
+
+const GENERATION_PARAM_KEYS: (keyof GenerationParams)[] = [
+  "MODEL",
+  "MAX_TOKENS",
+  "TEMPERATURE",
+  "TOP_P",
+  "PRESENCE_PENALTY",
+  "FREQUENCY_PENALTY",
+  "STOP",
+];
+
+const USAGE_LIMIT_KEYS = [
+  "CHAT_DAILY_TOKENS",
+  "CHAT_MONTHLY_TOKENS",
+  "USER_DAILY_TOKENS",
+  "BOT_MONTHLY_TOKENS",
+] as const;
+
+const USAGE_PRICE_KEYS = [
+  "PROMPT_PRICE_PER_MILLION",
+  "COMPLETION_PRICE_PER_MILLION",
+] as const;
+
+// Ограничение OpenAI-совместимых API на количество стоп-последовательностей
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Проверяет все необязательные блоки конфигурации бота
+ * @param config Конфигурация бота
+ * @returns Текст первой найденной ошибки или null, если конфигурация корректна
+ */
+export function validateBotConfig(config: BotConfig): string | null {
+  return (
+    validateProviderConfig(config) ||
+    validateFallbackConfig(config) ||
+    validateCircuitBreakerConfig(config) ||
+    validateLlmQueueConfig(config) ||
+    validateGenerationConfig(config) ||
+    validateStorageConfig(config) ||
+    validateContextBudget(config) ||
+    validatePrivateChatConfig(config) ||
+    validateUsageConfig(config) ||
+    validateVisionConfig(config) ||
+    validateTranscriptionConfig(config) ||
+    validateLogLevel(config)
+  );
+}
+
+/**
+ * Проверяет настройки провайдера LLM в конфигурации бота
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateProviderConfig(config: BotConfig): string | null {
+  const provider = config.LLM_PROVIDER;
+
+  // Без блока LLM_PROVIDER используется Deepseek с ключом DEEPSEEK_API_KEY
+  if (!provider) {
+    return config.DEEPSEEK_API_KEY ? null : "отсутствует DEEPSEEK_API_KEY";
+  }
+
+  if (provider.MAX_TOKENS !== undefined) {
+    if (!Number.isInteger(provider.MAX_TOKENS) || provider.MAX_TOKENS <= 0) {
+      return "LLM_PROVIDER.MAX_TOKENS должен быть положительным целым числом";
+    }
+  }
+
+  switch (provider.TYPE) {
+    case "deepseek":
+      return provider.API_KEY || config.DEEPSEEK_API_KEY
+        ? null
+        : "отсутствует API_KEY для провайдера deepseek";
+    case "openai-compatible":
+      if (!provider.BASE_URL) {
+        return "отсутствует LLM_PROVIDER.BASE_URL";
+      }
+      if (!provider.MODEL) {
+        return "отсутствует LLM_PROVIDER.MODEL";
+      }
+      return null;
+    default:
+      return `неизвестный тип провайдера ${provider.TYPE}`;
+  }
+}
+
+/**
+ * Проверяет резервного провайдера или модель
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateFallbackConfig(config: BotConfig): string | null {
+  const fallback = config.LLM_FALLBACK;
+  if (fallback === undefined) return null;
+  const provider = fallback.PROVIDER;
+
+  if (!isPlainObject(fallback)) {
+    return "LLM_FALLBACK должен быть объектом";
+  }
+
+  if (!fallback.PROVIDER && !fallback.MODEL) {
+    return "в LLM_FALLBACK нужно задать PROVIDER или MODEL";
+  }
+
+  if (
+    fallback.MODEL !== undefined &&
+    (typeof fallback.MODEL !== "string" || fallback.MODEL.trim() === "")
+  ) {
+    return "LLM_FALLBACK.MODEL должен быть непустой строкой";
+  }
+
+  if (provider) {
+    const providerError = validateProviderConfig({
+      ...config,
+      LLM_PROVIDER: provider,
+    });
+    if (providerError) return `LLM_FALLBACK: ${providerError}`;
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет настройки предохранителя запросов к LLM
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateCircuitBreakerConfig(config: BotConfig): string | null {
+  const breaker = config.CIRCUIT_BREAKER;
+  if (breaker === undefined) return null;
+
+  if (!isPlainObject(breaker)) {
+    return "CIRCUIT_BREAKER должен быть объектом";
+  }
+
+  for (const key of ["FAILURE_THRESHOLD", "COOLDOWN_MS"] as const) {
+    const value = breaker[key];
+    if (
+      value !== undefined &&
+      (typeof value !== "number" || !Number.isInteger(value) || value <= 0)
+    ) {
+      return `CIRCUIT_BREAKER.${key} должен быть положительным целым числом`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет настройки очереди запросов к LLM
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateLlmQueueConfig(config: BotConfig): string | null {
+  const queue = config.LLM_QUEUE;
+  if (queue === undefined) return null;
+
+  if (!isPlainObject(queue)) {
+    return "LLM_QUEUE должен быть объектом";
+  }
+
+  for (const key of [
+    "MAX_CONCURRENCY",
+    "MAX_QUEUE_LENGTH",
+    "DEADLINE_MS",
+  ] as const) {
+    const value = queue[key];
+    if (
+      value !== undefined &&
+      (typeof value !== "number" || !Number.isInteger(value) || value <= 0)
+    ) {
+      return `LLM_QUEUE.${key} должен быть положительным целым числом`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет настройки хранилища состояния бота
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateStorageConfig(config: BotConfig): string | null {
+  const storage = config.STORAGE;
+  if (storage === undefined) return null;
+
+  if (storage.TYPE !== "file" && storage.TYPE !== "memory") {
+    return `неизвестный тип хранилища ${storage.TYPE}`;
+  }
+
+  if (storage.DATA_DIR !== undefined && typeof storage.DATA_DIR !== "string") {
+    return "STORAGE.DATA_DIR должен быть строкой";
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет бюджет токенов на промпт
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если значение корректно
+ */
+export function validateContextBudget(config: BotConfig): string | null {
+  const budget = config.CONTEXT_TOKEN_BUDGET;
+  if (budget === undefined) return null;
+
+  if (!Number.isInteger(budget) || budget <= 0) {
+    return "CONTEXT_TOKEN_BUDGET должен быть положительным целым числом";
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет настройки личных чатов
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validatePrivateChatConfig(config: BotConfig): string | null {
+  const privateChat = config.PRIVATE_CHAT;
+  if (privateChat === undefined) return null;
+
+  if (!isPlainObject(privateChat)) {
+    return "PRIVATE_CHAT должен быть объектом";
+  }
+
+  if (
+    privateChat.ENABLED !== undefined &&
+    typeof privateChat.ENABLED !== "boolean"
+  ) {
+    return "PRIVATE_CHAT.ENABLED должен быть true или false";
+  }
+
+  if (
+    privateChat.SYSTEM_PROMPT_ADDITION !== undefined &&
+    typeof privateChat.SYSTEM_PROMPT_ADDITION !== "string"
+  ) {
+    return "PRIVATE_CHAT.SYSTEM_PROMPT_ADDITION должен быть строкой";
+  }
+
+  const allowedIds = privateChat.ALLOWED_USER_IDS;
+  if (
+    allowedIds !== undefined &&
+    (!Array.isArray(allowedIds) ||
+      allowedIds.some((id) => !Number.isInteger(id)))
+  ) {
+    return "PRIVATE_CHAT.ALLOWED_USER_IDS должен быть массивом числовых ID";
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет лимиты расхода токенов и цены
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateUsageConfig(config: BotConfig): string | null {
+  const usage = config.USAGE;
+  if (usage === undefined) return null;
+
+  if (!isPlainObject(usage)) {
+    return "USAGE должен быть объектом";
+  }
+
+  for (const key of USAGE_LIMIT_KEYS) {
+    const limit = usage[key];
+    if (
+      limit !== undefined &&
+      (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0)
+    ) {
+      return `USAGE.${key} должен быть положительным целым числом`;
+    }
+  }
+
+  for (const key of USAGE_PRICE_KEYS) {
+    const price = usage[key];
+    if (
+      price !== undefined &&
+      (typeof price !== "number" || !Number.isFinite(price) || price < 0)
+    ) {
+      return `USAGE.${key} должен быть неотрицательным числом`;
+    }
+  }
+
+  for (const key of ["QUOTA_EXCEEDED_MESSAGE", "CURRENCY"] as const) {
+    const value = usage[key];
+    if (
+      value !== undefined &&
+      (typeof value !== "string" || value.trim() === "")
+    ) {
+      return `USAGE.${key} должен быть непустой строкой`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет настройки распознавания фотографий
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateVisionConfig(config: BotConfig): string | null {
+  const vision = config.VISION;
+  if (vision === undefined) return null;
+
+  if (!isPlainObject(vision)) {
+    return "VISION должен быть объектом";
+  }
+
+  if (vision.ENABLED !== undefined && typeof vision.ENABLED !== "boolean") {
+    return "VISION.ENABLED должен быть true или false";
+  }
+
+  const maxBytes = vision.MAX_IMAGE_BYTES;
+  if (
+    maxBytes !== undefined &&
+    (typeof maxBytes !== "number" ||
+      !Number.isInteger(maxBytes) ||
+      maxBytes <= 0)
+  ) {
+    return "VISION.MAX_IMAGE_BYTES должен быть положительным целым числом";
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет настройки расшифровки голосовых сообщений
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если настройки корректны
+ */
+export function validateTranscriptionConfig(config: BotConfig): string | null {
+  const transcription = config.TRANSCRIPTION;
+  if (transcription === undefined) return null;
+
+  if (!isPlainObject(transcription)) {
+    return "TRANSCRIPTION должен быть объектом";
+  }
+
+  if (
+    typeof transcription.BASE_URL !== "string" ||
+    transcription.BASE_URL.trim() === ""
+  ) {
+    return "отсутствует TRANSCRIPTION.BASE_URL";
+  }
+
+  for (const key of ["API_KEY", "MODEL", "LANGUAGE"] as const) {
+    const value = transcription[key];
+    if (value !== undefined && typeof value !== "string") {
+      return `TRANSCRIPTION.${key} должен быть строкой`;
+    }
+  }
+
+  const maxDuration = transcription.MAX_DURATION_SEC;
+  if (
+    maxDuration !== undefined &&
+    (typeof maxDuration !== "number" ||
+      !Number.isInteger(maxDuration) ||
+      maxDuration <= 0)
+  ) {
+    return "TRANSCRIPTION.MAX_DURATION_SEC должен быть положительным целым числом";
+  }
+
+  if (
+    transcription.ECHO_TRANSCRIPT !== undefined &&
+    typeof transcription.ECHO_TRANSCRIPT !== "boolean"
+  ) {
+    return "TRANSCRIPTION.ECHO_TRANSCRIPT должен быть true или false";
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет уровень логирования бота
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если значение корректно
+ */
+export function validateLogLevel(config: BotConfig): string | null {
+  const level = config.LOG_LEVEL;
+  if (level === undefined) return null;
+
+  if (!LOG_LEVELS.includes(level)) {
+    return `LOG_LEVEL должен быть одним из: ${LOG_LEVELS.join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет блок GENERATION и его переопределения
+ * @param config Конфигурация бота
+ * @returns Текст ошибки или null, если параметры корректны
+ */
+export function validateGenerationConfig(config: BotConfig): string | null {
+  const generation = config.GENERATION;
+  if (generation === undefined) return null;
+
+  if (!isPlainObject(generation)) {
+    return "GENERATION должен быть объектом";
+  }
+
+  for (const key of Object.keys(generation)) {
+    const isKnown =
+      (GENERATION_PARAM_KEYS as string[]).includes(key) ||
+      (GENERATION_OVERRIDE_KEYS as readonly string[]).includes(key);
+    if (!isKnown) {
+      return `неизвестный параметр GENERATION.${key}`;
+    }
+  }
+
+  const baseError = validateGenerationParams(generation, "GENERATION");
+  if (baseError) return baseError;
+
+  for (const overrideKey of GENERATION_OVERRIDE_KEYS) {
+    const override = generation[overrideKey];
+    if (override === undefined) continue;
+
+    const path = `GENERATION.${overrideKey}`;
+    if (!isPlainObject(override)) {
+      return `${path} должен быть объектом`;
+    }
+
+    for (const key of Object.keys(override)) {
+      if (!(GENERATION_PARAM_KEYS as string[]).includes(key)) {
+        return `неизвестный параметр ${path}.${key}`;
+      }
+    }
+
+    const overrideError = validateGenerationParams(override, path);
+    if (overrideError) return overrideError;
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет значения параметров генерации
+ * @param params Параметры генерации
+ * @param path Путь к параметрам для сообщения об ошибке
+ * @returns Текст ошибки или null, если значения корректны
+ */
+function validateGenerationParams(
+  params: GenerationParams,
+  path: string
+): string | null {
+  if (params.MODEL !== undefined) {
+    if (typeof params.MODEL !== "string" || params.MODEL.trim() === "") {
+      return `${path}.MODEL должен быть непустой строкой`;
+    }
+  }
+
+  if (params.MAX_TOKENS !== undefined) {
+    if (!Number.isInteger(params.MAX_TOKENS) || params.MAX_TOKENS <= 0) {
+      return `${path}.MAX_TOKENS должен быть положительным целым числом`;
+    }
+  }
+
+  const rangeError =
+    checkRange(params.TEMPERATURE, 0, 2, `${path}.TEMPERATURE`) ||
+    checkRange(params.TOP_P, 0, 1, `${path}.TOP_P`) ||
+    checkRange(params.PRESENCE_PENALTY, -2, 2, `${path}.PRESENCE_PENALTY`) ||
+    checkRange(params.FREQUENCY_PENALTY, -2, 2, `${path}.FREQUENCY_PENALTY`);
+  if (rangeError) return rangeError;
+
+  if (params.STOP !== undefined) {
+    if (
+      !Array.isArray(params.STOP) ||
+      params.STOP.some((stop) => typeof stop !== "string" || stop === "")
+    ) {
+      return `${path}.STOP должен быть массивом непустых строк`;
+    }
+    if (params.STOP.length > MAX_STOP_SEQUENCES) {
+      return `${path}.STOP может содержать не более ${MAX_STOP_SEQUENCES} строк`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет, что число находится в допустимом диапазоне
+ * @returns Текст ошибки или null
+ */
+function checkRange(
+  value: number | undefined,
+  min: number,
+  max: number,
+  path: string
+): string | null {
+  if (value === undefined) return null;
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `${path} должен быть числом`;
+  }
+
+  if (value < min || value > max) {
+    return `${path} должен быть в диапазоне от ${min} до ${max}`;
+  }
+
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
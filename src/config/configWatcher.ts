@@ -0,0 +1,224 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BotConfig, LoadedBotConfig } from "../types";
+import { WorkerSupervisor } from "../supervisor/workerSupervisor";
+import { isHotReloadable, readBotConfigFile } from "./configLoader";
+import { logger } from "../logger/logger";
+
+// Редакторы сохраняют файл несколькими событиями, поэтому ждем затишья
+const DEBOUNCE_MS = 500;
+
+// Результат применения файла конфигурации
+export type ConfigChangeResult =
+  | "started"
+  | "removed"
+  | "renamed"
+  | "updated"
+  | "restarted"
+  | "stored"
+  | "unchanged"
+  | "rejected";
+
+/**
+ * Класс для отслеживания изменений в папке конфигураций
+ * Новый файл запускает бота, удаленный останавливает, измененный
+ * применяется на лету или перезапускает только этого бота.
+ * Бот, остановленный оператором, не запускается: его новая конфигурация
+ * только сохраняется до ручного запуска
+ */
+export class ConfigWatcher {
+  private configsFolder: string;
+  private supervisor: WorkerSupervisor;
+  // Актуальная конфигурация по имени файла
+  private configsByFile: Map<string, BotConfig>;
+  private debounceTimers: Map<string, NodeJS.Timeout>;
+  private watcher: fs.FSWatcher | null = null;
+
+  constructor(
+    configsFolder: string,
+    supervisor: WorkerSupervisor,
+    initialConfigs: LoadedBotConfig[]
+  ) {
+    this.configsFolder = configsFolder;
+    this.supervisor = supervisor;
+    this.configsByFile = new Map(
+      initialConfigs.map(({ file, config }) => [file, config])
+    );
+    this.debounceTimers = new Map<string, NodeJS.Timeout>();
+  }
+
+  /**
+   * Начинает отслеживание папки конфигураций
+   */
+  public start(): void {
+    this.watcher = fs.watch(this.configsFolder, (eventType, fileName) => {
+      if (!fileName || !fileName.toString().endsWith(".json")) return;
+      this.scheduleCheck(fileName.toString());
+    });
+
+    this.watcher.on("error", (error) => {
+      logger.error("Ошибка отслеживания папки configs", { error });
+    });
+
+    logger.info("Отслеживаются изменения конфигураций", {
+      path: this.configsFolder,
+    });
+  }
+
+  /**
+   * Прекращает отслеживание папки конфигураций
+   */
+  public close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+
+    for (const timer of this.debounceTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.debounceTimers.clear();
+  }
+
+  /**
+   * Перечитывает файл конфигурации бота и применяет изменения
+   * @param botName Имя бота
+   * @returns Результат применения или null, если файл бота неизвестен
+   */
+  public async reloadBot(botName: string): Promise<ConfigChangeResult | null> {
+    const file = this.findFileByBotName(botName);
+    if (!file) return null;
+
+    return this.handleFileChange(file);
+  }
+
+  /**
+   * Откладывает обработку файла до окончания серии событий
+   * @param file Имя файла
+   * @private
+   */
+  private scheduleCheck(file: string): void {
+    const existing = this.debounceTimers.get(file);
+    if (existing) clearTimeout(existing);
+
+    this.debounceTimers.set(
+      file,
+      setTimeout(() => {
+        this.debounceTimers.delete(file);
+        this.handleFileChange(file).catch((error) => {
+          logger.error("Ошибка применения конфигурации", { file, error });
+        });
+      }, DEBOUNCE_MS)
+    );
+  }
+
+  /**
+   * Применяет изменение файла конфигурации
+   * @param file Имя файла
+   * @returns Результат применения
+   * @private
+   */
+  private async handleFileChange(file: string): Promise<ConfigChangeResult> {
+    const previous = this.configsByFile.get(file);
+
+    // Файл удален: останавливаем бота
+    if (!fs.existsSync(path.join(this.configsFolder, file))) {
+      if (!previous) return "unchanged";
+
+      logger.info("Конфигурация удалена, останавливаем бота", {
+        botName: previous.BOT_NAME,
+        file,
+      });
+      this.configsByFile.delete(file);
+      await this.supervisor.remove(previous.BOT_NAME);
+      return "removed";
+    }
+
+    const next = readBotConfigFile(this.configsFolder, file);
+    if (!next) {
+      // Некорректная правка не должна останавливать работающего бота
+      if (previous) {
+        logger.error(
+          "Изменения отклонены, бот продолжает работать со старой конфигурацией",
+          { botName: previous.BOT_NAME, file }
+        );
+      }
+      return "rejected";
+    }
+
+    const duplicate = this.findFileByBotName(next.BOT_NAME);
+    if (duplicate && duplicate !== file) {
+      logger.error(`Изменения отклонены: бот уже описан в ${duplicate}`, {
+        botName: next.BOT_NAME,
+        file,
+      });
+      return "rejected";
+    }
+
+    this.configsByFile.set(file, next);
+
+    // Новый файл: запускаем нового бота
+    if (!previous) {
+      logger.info("Найдена новая конфигурация, запускаем бота", {
+        botName: next.BOT_NAME,
+        file,
+      });
+      this.supervisor.start(next);
+      return "started";
+    }
+
+    const isStopped =
+      this.supervisor.getSnapshot(previous.BOT_NAME)?.status === "stopped";
+
+    // Переименованный бот: останавливаем старый процесс и запускаем новый
+    if (previous.BOT_NAME !== next.BOT_NAME) {
+      logger.info(
+        `Изменено имя бота ${previous.BOT_NAME} → ${next.BOT_NAME}, перезапускаем`,
+        { botName: next.BOT_NAME, file }
+      );
+      await this.supervisor.remove(previous.BOT_NAME);
+      if (isStopped) {
+        this.supervisor.setConfig(next);
+      } else {
+        this.supervisor.start(next);
+      }
+      return "renamed";
+    }
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) return "unchanged";
+
+    // Остановленный оператором бот не запускаем из-за правки файла
+    if (isStopped) {
+      logger.info("Конфигурация остановленного бота сохранена без запуска", {
+        botName: next.BOT_NAME,
+      });
+      this.supervisor.setConfig(next);
+      return "stored";
+    }
+
+    // Промпты и параметры генерации применяем без перезапуска
+    if (isHotReloadable(previous, next) && this.supervisor.updateConfig(next)) {
+      logger.info("Конфигурация бота обновлена без перезапуска", {
+        botName: next.BOT_NAME,
+      });
+      return "updated";
+    }
+
+    logger.info("Конфигурация бота изменена, перезапускаем", {
+      botName: next.BOT_NAME,
+    });
+    await this.supervisor.restart(next.BOT_NAME, next);
+    return "restarted";
+  }
+
+  /**
+   * Ищет файл, в котором описан бот с указанным именем
+   * @param botName Имя бота
+   * @returns Имя файла или null
+   * @private
+   */
+  private findFileByBotName(botName: string): string | null {
+    for (const [file, config] of this.configsByFile.entries()) {
+      if (config.BOT_NAME === botName) return file;
+    }
+    return null;
+  }
+}
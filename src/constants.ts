@@ -6,12 +6,21 @@ export const BOT_DEFAULTS = {
     ACTIVE_TTL_MS: 2 * 60 * 60 * 1000, // 2 часа
     CLEANUP_INTERVAL_MS: 5 * 60 * 1000, // 5 минут
   },
+  STORAGE: {
+    // Изменения копятся и дописываются в файл хранилища не чаще раза в секунду
+    FLUSH_DELAY_MS: 1000,
+  },
   HISTORY: {
-    // История сообщений
+    // История сообщений: при превышении MAX_LENGTH или бюджета токенов история
+    // сокращается (не больше чем до DEFAULT_LENGTH), а вытесненные сообщения уходят в выжимку
     DEFAULT_LENGTH: 15,
     MAX_LENGTH: 30,
-    // Количество сообщений для отправки в API
-    RELEVANT_LENGTH: 10,
+    // Бюджет токенов на промпт (системные сообщения и история), если не задан в конфигурации
+    DEFAULT_TOKEN_BUDGET: 3000,
+    // Доля бюджета истории, до которой она сокращается, когда перестает в него помещаться
+    TRIMMED_BUDGET_SHARE: 0.6,
+    // Ограничение длины выжимки старой части беседы
+    SUMMARY_MAX_TOKENS: 300,
   },
   MESSAGES: {
     // Максимальная длина сообщения Telegram
@@ -19,15 +28,110 @@ export const BOT_DEFAULTS = {
     MAX_SAFE_LENGTH: 10000,
     // Количество сообщений, после которого повторяем настройку
     REMINDER_INTERVAL: 10,
+    // Потоковые ответы: заглушка и минимальный интервал между правками
+    STREAM_PLACEHOLDER: "…",
+    STREAM_EDIT_INTERVAL_MS: 1500,
   },
   API: {
     DEFAULT_RETRIES: 3,
     DEFAULT_TIMEOUT_MS: 30000,
     BACKOFF_BASE_MS: 1000,
+    // Retry-After дольше этого времени не ждем, ошибка возвращается сразу
+    MAX_RETRY_AFTER_MS: 30 * 1000,
+    CIRCUIT_BREAKER: {
+      FAILURE_THRESHOLD: 5,
+      COOLDOWN_MS: 60 * 1000,
+    },
+    DEFAULT_MAX_TOKENS: 1000,
+    DEEPSEEK: {
+      BASE_URL: "https://api.deepseek.com",
+      MODEL: "deepseek-chat",
+    },
+  },
+  TELEGRAM: {
+    // Лимиты Bot API: около 30 сообщений в секунду на бота,
+    // не чаще раза в секунду в личный чат и 20 сообщений в минуту в группу
+    GLOBAL_MESSAGES_PER_SECOND: 30,
+    PRIVATE_CHAT_INTERVAL_MS: 1000,
+    GROUP_MESSAGES_PER_MINUTE: 20,
+    // Повторы отправки после 429; паузу дольше предела не ждем
+    SEND_RETRIES: 3,
+    MAX_RETRY_AFTER_MS: 60 * 1000,
+  },
+  VISION: {
+    MAX_IMAGE_BYTES: 5 * 1024 * 1024,
+    DOWNLOAD_TIMEOUT_MS: 15000,
+    // Оценка токенов изображения, когда API не сообщил расход
+    ESTIMATED_IMAGE_TOKENS: 1000,
+    // Сколько фото альбома передавать модели
+    MAX_ALBUM_IMAGES: 4,
+    // Пометка фото в истории беседы, где само изображение не хранится
+    PHOTO_MARKER: "[Фото]",
+  },
+  TRANSCRIPTION: {
+    DEFAULT_MODEL: "whisper-1",
+    MAX_DURATION_SEC: 120,
+    // Bot API отдает файлы не больше 20 МБ
+    MAX_FILE_BYTES: 20 * 1024 * 1024,
+    TIMEOUT_MS: 60000,
+  },
+  LLM_QUEUE: {
+    MAX_CONCURRENCY: 4,
+    MAX_QUEUE_LENGTH: 50,
+    // Ответ, ждавший дольше минуты, уже неуместен в беседе
+    DEADLINE_MS: 60 * 1000,
+  },
+  SUPERVISOR: {
+    // Задержка перед перезапуском удваивается с каждым падением
+    RESTART_BASE_DELAY_MS: 1000,
+    RESTART_MAX_DELAY_MS: 60 * 1000,
+    // Бот считается сломанным после MAX_CRASHES_IN_WINDOW падений за окно
+    CRASH_WINDOW_MS: 5 * 60 * 1000,
+    MAX_CRASHES_IN_WINDOW: 5,
+    SHUTDOWN_TIMEOUT_MS: 5000,
+  },
+  WORKER: {
+    // Воркер шлет heartbeat, пока event loop и обработка апдейтов не зависли
+    HEARTBEAT_INTERVAL_MS: 10 * 1000,
+    // Мастер перезапускает воркер, не приславший heartbeat за это время
+    HEARTBEAT_TIMEOUT_MS: 60 * 1000,
+    // Не реже типичного интервала опроса Prometheus
+    METRICS_INTERVAL_MS: 15 * 1000,
+    // Обработка одного апдейта дольше этого времени считается зависанием
+    UPDATE_STUCK_TIMEOUT_MS: 5 * 60 * 1000,
+  },
+  ADMIN: {
+    // HTTP API управления слушает только локальный интерфейс
+    HOST: "127.0.0.1",
+    PORT: 8787,
+  },
+  METRICS: {
+    HOST: "127.0.0.1",
+    // Границы гистограммы длительности запросов к LLM (в секундах)
+    LLM_LATENCY_BUCKETS: [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60],
+  },
+  USAGE: {
+    // Сколько хранить суточные и месячные итоги расхода токенов
+    DAILY_RETENTION_DAYS: 35,
+    MONTHLY_RETENTION_MONTHS: 13,
+    // Количество крупнейших потребителей в отчете
+    REPORT_TOP_SIZE: 10,
+    CURRENCY: "USD",
+    QUOTA_EXCEEDED_MESSAGE:
+      "На сегодня я выговорился, лимит болтовни исчерпан. Приходите позже!",
   },
   POSTS: {
     // Вероятность комментирования поста (100%)
     COMMENT_PROBABILITY: 1.0, // 100%
     MIN_TEXT_LENGTH: 5,
+    // Количество тем постов в кэше
+    TOPIC_CACHE_SIZE: 500,
+    // Как часто журнал кэша тем сжимается до актуальных записей
+    TOPIC_CACHE_COMPACT_INTERVAL_MS: 5 * 60 * 1000, // 5 минут
+    DEFAULT_TOPIC: "Общая тема",
+    // Сколько ждать следующую часть альбома, прежде чем комментировать его
+    MEDIA_GROUP_WINDOW_MS: 1500,
+    // Сколько символов поста напоминать модели в ветке комментариев
+    THREAD_POST_TEXT_MAX_LENGTH: 2000,
   },
 };
@@ -0,0 +1,30 @@
+import { Context } from "telegraf";
+
+/**
+ * Создает уникальный ключ для контекста пользователя
+ * @param ctx Контекст Telegraf
+ * @param botId ID бота
+ * @returns Ключ вида <chat>_<user>_<bot>
+ */
+export function createUserKey(ctx: Context, botId?: number): string {
+  const userId = ctx.message?.from ? ctx.message.from.id : "unknown";
+  const chatId = ctx.chat?.id || "unknown";
+  return `${chatId}_${userId}_${botId || "unknown"}`;
+}
+
+/**
+ * Создает уникальный ключ для контекста поста
+ * @param ctx Контекст Telegraf
+ * @param botId ID бота
+ * @param postMessageId ID сообщения с постом (по умолчанию текущее сообщение)
+ * @returns Ключ вида post_<chat>_<message>_<bot>
+ */
+export function createPostKey(
+  ctx: Context,
+  botId?: number,
+  postMessageId?: number
+): string {
+  const chatId = ctx.chat?.id || "unknown";
+  const messageId = postMessageId || ctx.message?.message_id || "unknown";
+  return `post_${chatId}_${messageId}_${botId || "unknown"}`;
+}
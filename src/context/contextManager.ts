@@ -1,19 +1,46 @@
 import { BOT_DEFAULTS } from "../constants";
-import { UserContext } from "../types";
+import { PostTopic, UserContext } from "../types";
+import { KeyValueStore } from "../storage/keyValueStore";
+import { Logger, logger } from "../logger/logger";
+
+type ContextKind = "user" | "post";
 
 /**
  * Класс для управления контекстами пользователей и постов
- * Отвечает за создание, получение и очистку контекстов
+ * Отвечает за создание, получение, сохранение и очистку контекстов
  */
 export class ContextManager {
   private userContexts: Map<string, UserContext>;
   private postContexts: Map<string, UserContext>;
-  private botName: string;
+  private userStore: KeyValueStore<UserContext>;
+  private postStore: KeyValueStore<UserContext>;
+  // Обратная связь контекста с его ключом для сохранения изменений
+  private contextKeys: WeakMap<UserContext, { kind: ContextKind; key: string }>;
+  private logger: Logger;
+
+  constructor(
+    botName: string,
+    userStore: KeyValueStore<UserContext>,
+    postStore: KeyValueStore<UserContext>
+  ) {
+    this.logger = logger.child({ botName });
+    this.userStore = userStore;
+    this.postStore = postStore;
+    this.contextKeys = new WeakMap();
+
+    // Восстанавливаем контексты, сохраненные до перезапуска
+    this.userContexts = this.userStore.load();
+    this.postContexts = this.postStore.load();
+    this.registerKeys(this.userContexts, "user");
+    this.registerKeys(this.postContexts, "post");
+
+    this.logger.info("Restored contexts", {
+      users: this.userContexts.size,
+      posts: this.postContexts.size,
+    });
 
-  constructor(botName: string) {
-    this.userContexts = new Map<string, UserContext>();
-    this.postContexts = new Map<string, UserContext>();
-    this.botName = botName;
+    // Контексты могли устареть, пока бот был остановлен
+    this.cleanupOldContexts();
 
     // Запускаем периодическую очистку старых контекстов
     this.setupCleanupInterval();
@@ -27,7 +54,10 @@ export class ContextManager {
   public getUserContext(userKey: string): UserContext {
     // Получаем существующий контекст или создаем новый
     if (!this.userContexts.has(userKey)) {
-      this.userContexts.set(userKey, this.createNewUserContext());
+      const context = this.createNewUserContext();
+      this.userContexts.set(userKey, context);
+      this.contextKeys.set(context, { kind: "user", key: userKey });
+      this.saveContext(context);
     }
 
     const context = this.userContexts.get(userKey)!;
@@ -40,26 +70,71 @@ export class ContextManager {
    * @param postTopic Опциональная тема поста
    * @returns Контекст поста
    */
-  public getPostContext(postKey: string, postTopic?: string): UserContext {
+  public getPostContext(postKey: string, postTopic?: PostTopic): UserContext {
     // Получаем существующий контекст или создаем новый
     if (!this.postContexts.has(postKey)) {
-      this.postContexts.set(postKey, this.createNewUserContext(postTopic));
+      const context = this.createNewUserContext(postTopic);
+      this.postContexts.set(postKey, context);
+      this.contextKeys.set(context, { kind: "post", key: postKey });
+      this.saveContext(context);
     } else if (postTopic) {
       // Обновляем тему, если она предоставлена
       const context = this.postContexts.get(postKey)!;
       context.postTopic = postTopic;
       context.lastInteraction = Date.now();
+      this.saveContext(context);
     }
 
     return this.postContexts.get(postKey)!;
   }
 
+  /**
+   * Ищет существующий контекст поста, не создавая новый
+   * @param postKey Уникальный ключ поста
+   * @returns Контекст поста или undefined, если бот не комментировал этот пост
+   */
+  public findPostContext(postKey: string): UserContext | undefined {
+    return this.postContexts.get(postKey);
+  }
+
+  /**
+   * Удаляет контекст пользователя из памяти и хранилища
+   * @param userKey Уникальный ключ пользователя
+   * @returns true, если контекст существовал
+   */
+  public deleteUserContext(userKey: string): boolean {
+    if (!this.userContexts.has(userKey)) return false;
+
+    this.userContexts.delete(userKey);
+    this.userStore.delete(userKey);
+    return true;
+  }
+
+  /**
+   * Сохраняет изменения контекста в хранилище
+   * @param context Измененный контекст
+   */
+  public saveContext(context: UserContext): void {
+    const entry = this.contextKeys.get(context);
+    if (!entry) return;
+
+    const isUser = entry.kind === "user";
+    const contextMap = isUser ? this.userContexts : this.postContexts;
+
+    // Контекст мог быть удален очисткой, пока шла фоновая обработка
+    if (contextMap.get(entry.key) !== context) return;
+
+    const store = isUser ? this.userStore : this.postStore;
+    store.set(entry.key, context);
+  }
+
   /**
    * Обновляет время последнего взаимодействия для контекста
    * @param context Контекст для обновления
    */
   public updateLastInteraction(context: UserContext): void {
     context.lastInteraction = Date.now();
+    this.saveContext(context);
   }
 
   /**
@@ -69,10 +144,14 @@ export class ContextManager {
     const now = Date.now();
 
     // Очистка пользовательских контекстов
-    this.cleanMapWithTtl(this.userContexts, now);
+    this.cleanMapWithTtl(this.userContexts, this.userStore, now);
 
     // Очистка контекстов постов
-    this.cleanMapWithTtl(this.postContexts, now);
+    this.cleanMapWithTtl(this.postContexts, this.postStore, now);
+
+    // Сжимаем журналы хранилища до актуального состояния
+    this.userStore.compact(this.userContexts);
+    this.postStore.compact(this.postContexts);
 
     // Логируем статистику после очистки
     this.logCleanupStats();
@@ -97,8 +176,8 @@ export class ContextManager {
       this.cleanupOldContexts();
     }, BOT_DEFAULTS.CONTEXT.CLEANUP_INTERVAL_MS);
 
-    console.log(
-      `[${this.botName}] Context cleanup scheduled every ${
+    this.logger.debug(
+      `Context cleanup scheduled every ${
         BOT_DEFAULTS.CONTEXT.CLEANUP_INTERVAL_MS / 60000
       } minutes`
     );
@@ -109,7 +188,7 @@ export class ContextManager {
    * @param postTopic Опциональная тема поста
    * @returns Новый контекст пользователя
    */
-  private createNewUserContext(postTopic?: string): UserContext {
+  private createNewUserContext(postTopic?: PostTopic): UserContext {
     return {
       messages: [],
       lastInteraction: Date.now(),
@@ -120,12 +199,39 @@ export class ContextManager {
   }
 
   /**
-   * Очищает старые записи из указанной Map на основе TTL
+   * Связывает загруженные контексты с их ключами
+   * Тема, сохраненная прежними версиями строкой, приводится к PostTopic
    * @param contextMap Map с контекстами
+   * @param kind Вид контекстов
+   */
+  private registerKeys(
+    contextMap: Map<string, UserContext>,
+    kind: ContextKind
+  ): void {
+    for (const [key, context] of contextMap.entries()) {
+      const postTopic: unknown = context.postTopic;
+      if (typeof postTopic === "string") {
+        context.postTopic = { topic: postTopic, keywords: [] };
+      } else if (
+        context.postTopic &&
+        !Array.isArray(context.postTopic.keywords)
+      ) {
+        context.postTopic.keywords = [];
+      }
+
+      this.contextKeys.set(context, { kind, key });
+    }
+  }
+
+  /**
+   * Очищает старые записи из указанной Map и хранилища на основе TTL
+   * @param contextMap Map с контекстами
+   * @param store Хранилище этих контекстов
    * @param currentTime Текущее время
    */
   private cleanMapWithTtl(
     contextMap: Map<string, UserContext>,
+    store: KeyValueStore<UserContext>,
     currentTime: number
   ): void {
     for (const [key, context] of contextMap.entries()) {
@@ -135,6 +241,7 @@ export class ContextManager {
 
       if (currentTime - context.lastInteraction > ttl) {
         contextMap.delete(key);
+        store.delete(key);
       }
     }
   }
@@ -143,8 +250,9 @@ export class ContextManager {
    * Логирует статистику активных контекстов
    */
   private logCleanupStats(): void {
-    console.log(
-      `[${this.botName}] Active contexts: ${this.userContexts.size} users, ${this.postContexts.size} posts`
-    );
+    this.logger.debug("Active contexts", {
+      users: this.userContexts.size,
+      posts: this.postContexts.size,
+    });
   }
 }
@@ -0,0 +1,79 @@
+import { ChatMessage, UsageScope, UserContext } from "../types";
+import { ApiService } from "../api/apiService";
+import { ContextManager } from "./contextManager";
+import { Logger, logger } from "../logger/logger";
+
+/**
+ * Класс для сворачивания старой части беседы в краткую выжимку
+ * Выжимка обновляется в фоне и хранится в UserContext.summary
+ */
+export class ConversationSummarizer {
+  private apiService: ApiService;
+  private contextManager: ContextManager;
+  private logger: Logger;
+  // Очередь обновлений по контекстам, чтобы выжимки применялись по порядку
+  private pending: WeakMap<UserContext, Promise<void>>;
+
+  constructor(
+    apiService: ApiService,
+    contextManager: ContextManager,
+    botName: string
+  ) {
+    this.apiService = apiService;
+    this.contextManager = contextManager;
+    this.logger = logger.child({ botName });
+    this.pending = new WeakMap();
+  }
+
+  /**
+   * Запускает фоновое добавление вытесненных сообщений в выжимку
+   * @param context Контекст беседы
+   * @param droppedMessages Сообщения, удаленные из истории
+   * @param scope Чат и пользователь, на которых записывается расход токенов
+   */
+  public summarizeInBackground(
+    context: UserContext,
+    droppedMessages: ChatMessage[],
+    scope?: UsageScope
+  ): void {
+    if (droppedMessages.length === 0) return;
+
+    const previous = this.pending.get(context) || Promise.resolve();
+    const next = previous.then(() =>
+      this.updateSummary(context, droppedMessages, scope)
+    );
+    this.pending.set(context, next);
+  }
+
+  /**
+   * Обновляет выжимку контекста и сохраняет его
+   * @param context Контекст беседы
+   * @param droppedMessages Сообщения, удаленные из истории
+   * @param scope Чат и пользователь, на которых записывается расход токенов
+   * @private
+   */
+  private async updateSummary(
+    context: UserContext,
+    droppedMessages: ChatMessage[],
+    scope?: UsageScope
+  ): Promise<void> {
+    try {
+      const summary = await this.apiService.summarizeConversation(
+        context.summary,
+        droppedMessages,
+        scope
+      );
+
+      if (summary) {
+        context.summary = summary;
+        this.contextManager.saveContext(context);
+      }
+    } catch (error) {
+      // Без выжимки беседа продолжится, просто без старых подробностей
+      this.logger.error(
+        `Error summarizing ${droppedMessages.length} messages`,
+        { error }
+      );
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import * as crypto from "crypto";
+import { BOT_DEFAULTS } from "../constants";
+import { PostTopic } from "../types";
+import { KeyValueStore } from "../storage/keyValueStore";
+
+/**
+ * Класс LRU-кэша тем постов
+ * Ключ — хэш текста поста, поэтому тема определяется один раз для поста
+ * и для всех ответов на него. Кэш сохраняется в хранилище рядом с контекстами;
+ * обращение к теме тоже сохраняется, чтобы порядок использования
+ * пережил перезапуск. Журнал хранилища периодически сжимается
+ */
+export class PostTopicCache {
+  private store: KeyValueStore<PostTopic>;
+  private maxSize: number;
+  // Порядок вставки Map — порядок использования, первым идет самый давний
+  private entries: Map<string, PostTopic>;
+
+  constructor(store: KeyValueStore<PostTopic>, maxSize: number) {
+    this.store = store;
+    this.maxSize = maxSize;
+    this.entries = this.store.load();
+
+    this.evictOverflow();
+    this.store.compact(this.entries);
+
+    // Вытеснение и обращения дописывают журнал, поэтому он сжимается регулярно
+    setInterval(() => {
+      this.store.compact(this.entries);
+    }, BOT_DEFAULTS.POSTS.TOPIC_CACHE_COMPACT_INTERVAL_MS);
+  }
+
+  /**
+   * Возвращает сохраненную тему поста
+   * @param postText Текст поста
+   * @returns Тема или undefined, если пост еще не анализировался
+   */
+  public get(postText: string): PostTopic | undefined {
+    const key = this.createKey(postText);
+    const topic = this.entries.get(key);
+    if (!topic) return undefined;
+
+    // Перемещаем в конец как недавно использованную; хранилище восстановит
+    // этот порядок при загрузке, так как записи идут в порядке сохранения
+    this.entries.delete(key);
+    this.entries.set(key, topic);
+    this.store.set(key, topic);
+    return topic;
+  }
+
+  /**
+   * Сохраняет тему поста, вытесняя самые давние записи
+   * @param postText Текст поста
+   * @param topic Тема поста
+   */
+  public set(postText: string, topic: PostTopic): void {
+    const key = this.createKey(postText);
+
+    this.entries.delete(key);
+    this.entries.set(key, topic);
+    this.store.set(key, topic);
+
+    this.evictOverflow();
+  }
+
+  /**
+   * Удаляет самые давно использованные записи сверх лимита
+   * @private
+   */
+  private evictOverflow(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) break;
+
+      this.entries.delete(key);
+      this.store.delete(key);
+    }
+  }
+
+  private createKey(postText: string): string {
+    return crypto.createHash("sha256").update(postText.trim()).digest("hex");
+  }
+}
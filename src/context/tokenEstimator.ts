@@ -0,0 +1,42 @@
+import { BOT_DEFAULTS } from "../constants";
+import { ChatMessage } from "../types";
+import { countContentImages, getContentText } from "../api/chatContent";
+
+// Служебные токены, которые API добавляет к каждому сообщению (роль, разделители)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Среднее число символов на токен: кириллица кодируется заметно плотнее латиницы
+const CHARS_PER_TOKEN_CYRILLIC = 2.5;
+const CHARS_PER_TOKEN_OTHER = 4;
+
+/**
+ * Приблизительно оценивает количество токенов в тексте
+ * Оценка намеренно завышена, чтобы не превышать реальный лимит модели
+ * @param text Текст для оценки
+ * @returns Оценка количества токенов
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  const cyrillicCount = (text.match(/[\u0400-\u04FF]/g) || []).length;
+  const otherCount = text.length - cyrillicCount;
+
+  return Math.ceil(
+    cyrillicCount / CHARS_PER_TOKEN_CYRILLIC +
+      otherCount / CHARS_PER_TOKEN_OTHER
+  );
+}
+
+/**
+ * Оценивает количество токенов в сообщении с учетом служебных токенов
+ * @param message Сообщение чата
+ * @returns Оценка количества токенов
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  return (
+    estimateTokens(getContentText(message.content)) +
+    countContentImages(message.content) *
+      BOT_DEFAULTS.VISION.ESTIMATED_IMAGE_TOKENS +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
@@ -1,20 +1,22 @@
 import * as fs from "fs";
 import * as path from "path";
-import { fork, ChildProcess } from "child_process";
-import { BotConfig, ProcessSignal } from "./types";
+import * as dotenv from "dotenv";
+import { BOT_DEFAULTS } from "./constants";
+import { BotConfig, LoadedBotConfig, ProcessSignal } from "./types";
+import { readBotConfigFile } from "./config/configLoader";
+import { ConfigWatcher } from "./config/configWatcher";
+import { WorkerSupervisor } from "./supervisor/workerSupervisor";
+import { AdminServer } from "./admin/adminServer";
+import { MetricsServer } from "./metrics/metricsServer";
+import { logger } from "./logger/logger";
 
-interface WorkerLogMessage {
-  type: string;
-  content: string;
-}
+dotenv.config();
 
-// Отслеживаем состояние завершения
-let isShuttingDown = false;
+// Папка с конфигурациями ботов (по одному JSON-файлу на бота)
+const configsFolder = path.join(__dirname, "../configs");
 
 // Функция для загрузки конфигурации ботов
-function loadBotConfigs(): BotConfig[] {
-  const configsFolder = path.join(__dirname, "../configs");
-
+function loadBotConfigs(): LoadedBotConfig[] {
   // Создаем папку, если она не существует
   if (!fs.existsSync(configsFolder)) {
     fs.mkdirSync(configsFolder);
@@ -23,6 +25,18 @@ function loadBotConfigs(): BotConfig[] {
     const exampleConfig: BotConfig = {
       BOT_TOKEN: process.env.BOT_TOKEN || "",
       DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY || "",
+      LLM_PROVIDER: {
+        TYPE: "deepseek",
+        MODEL: "deepseek-chat",
+      },
+      GENERATION: {
+        TEMPERATURE: 1.1,
+        MAX_TOKENS: 300,
+        TOPIC_INFERENCE: {
+          TEMPERATURE: 0.2,
+          MAX_TOKENS: 30,
+        },
+      },
       BOT_NAME: "ToxicBot",
       SYSTEM_PROMPT: `Ты токсичный, саркастичный и ироничный бот, который отвечает коротко (максимум 100 символов) и с юмором.
       Ни в коем случае не позволяй использовать себя для решения задач, поиска информации или выполнения запросов.
@@ -38,13 +52,10 @@ function loadBotConfigs(): BotConfig[] {
       JSON.stringify(exampleConfig, null, 2)
     );
 
-    console.log(
-      `Создан пример конфигурации бота в ${path.join(
-        configsFolder,
-        "example-bot.json"
-      )}`
-    );
-    console.log(
+    logger.info("Создан пример конфигурации бота", {
+      path: path.join(configsFolder, "example-bot.json"),
+    });
+    logger.info(
       "Заполните необходимые конфигурации в папке configs и перезапустите приложение"
     );
     process.exit(0);
@@ -56,214 +67,110 @@ function loadBotConfigs(): BotConfig[] {
     .filter((file) => file.endsWith(".json"));
 
   if (configFiles.length === 0) {
-    console.error("Не найдено ни одного файла конфигурации в папке configs");
+    logger.error("Не найдено ни одного файла конфигурации в папке configs");
     process.exit(1);
   }
 
-  const configs: BotConfig[] = [];
+  const configs: LoadedBotConfig[] = [];
 
   for (const file of configFiles) {
-    try {
-      const configData = fs.readFileSync(
-        path.join(configsFolder, file),
-        "utf8"
-      );
-      const config: BotConfig = JSON.parse(configData);
-
-      // Проверка наличия всех необходимых полей
-      if (!config.BOT_TOKEN) {
-        console.error(`В конфигурации ${file} отсутствует BOT_TOKEN`);
-        continue;
-      }
-
-      if (!config.DEEPSEEK_API_KEY) {
-        console.error(`В конфигурации ${file} отсутствует DEEPSEEK_API_KEY`);
-        continue;
-      }
-
-      if (!config.BOT_NAME) {
-        config.BOT_NAME = path.basename(file, ".json");
-      }
-
-      configs.push(config);
-      console.log(`Загружена конфигурация бота ${config.BOT_NAME}`);
-    } catch (err) {
-      console.error(`Ошибка при загрузке конфигурации ${file}:`, err);
-    }
+    const config = readBotConfigFile(configsFolder, file);
+    if (!config) continue;
+
+    configs.push({ file, config });
+    logger.info("Загружена конфигурация бота", {
+      botName: config.BOT_NAME,
+      file,
+    });
   }
 
   return configs;
 }
 
-/**
- * Останавливает всех воркеров и ждет их корректного завершения
- * @param workers Массив дочерних процессов
- * @param signal Сигнал для отправки дочерним процессам
- * @returns Promise, который разрешится после завершения всех воркеров
- */
-async function stopAllWorkers(
-  workers: ChildProcess[],
-  signal: ProcessSignal
-): Promise<void> {
-  if (isShuttingDown) return; // Предотвращаем двойное завершение
-
-  isShuttingDown = true;
-  console.log(
-    `\n[${new Date().toISOString()}] Получен сигнал ${signal}, останавливаем всех ботов...`
-  );
-
-  // Отправляем сообщение о завершении всем воркерам
-  for (const worker of workers) {
-    if (worker.connected) {
-      worker.send("shutdown");
-    }
-  }
-
-  // Даем воркерам время для корректного завершения
-  await new Promise<void>((resolve) => {
-    const checkInterval = setInterval(() => {
-      // Проверяем, остались ли запущенные воркеры
-      const runningWorkers = workers.filter(
-        (w) => !w.killed && w.exitCode === null
-      );
-
-      if (runningWorkers.length === 0) {
-        clearInterval(checkInterval);
-        resolve();
-      }
-    }, 100);
-
-    // Страховка: устанавливаем максимальное время ожидания
-    setTimeout(() => {
-      clearInterval(checkInterval);
-
-      // Принудительно завершаем не остановившиеся воркеры
-      for (const worker of workers) {
-        if (!worker.killed && worker.exitCode === null) {
-          console.log(`Принудительное завершение воркера PID ${worker.pid}`);
-          worker.kill(signal);
-        }
-      }
-
-      resolve();
-    }, 5000); // 5 секунд на корректное завершение
-  });
-
-  console.log(
-    `[${new Date().toISOString()}] Все боты остановлены, завершение приложения`
-  );
-}
-
 // Основная функция запуска
 async function main() {
   const botConfigs = loadBotConfigs();
 
   if (botConfigs.length === 0) {
-    console.error("Нет корректных конфигураций для запуска ботов");
+    logger.error("Нет корректных конфигураций для запуска ботов");
     process.exit(1);
   }
 
-  // Указываем тип явно как массив дочерних процессов
-  const workers: ChildProcess[] = [];
-
   // Определяем, в каком режиме запущено приложение
   const isDevelopment = process.env.NODE_ENV !== "production";
-  console.log(`Запуск в режиме: ${isDevelopment ? "разработка" : "продакшн"}`);
-
-  // Запускаем каждого бота в отдельном процессе
-  for (const config of botConfigs) {
-    try {
-      const configString = JSON.stringify(config);
-      let worker: ChildProcess;
-
-      if (isDevelopment) {
-        // Режим разработки: используем ts-node для запуска TypeScript файлов
-        const tsNodePath = path.join(__dirname, "../node_modules/.bin/ts-node");
-        const botWorkerPath = path.join(__dirname, "./bot/botWorker.ts");
-
-        console.log(`Запуск worker в режиме разработки: ${botWorkerPath}`);
-        worker = fork(botWorkerPath, [configString], {
-          execPath: tsNodePath,
-          execArgv: [],
-        });
-      } else {
-        // Режим продакшн: используем скомпилированные JS файлы
-        // Вычисляем путь к bot-worker.js относительно текущего файла
-        const botWorkerPath = path.join(__dirname, "./bot/botWorker.js");
-
-        console.log(`Запуск worker в режиме продакшн: ${botWorkerPath}`);
-        console.log(
-          `Проверка существования файла: ${fs.existsSync(botWorkerPath)}`
-        );
-
-        worker = fork(botWorkerPath, [configString]);
-      }
+  logger.info(`Запуск в режиме: ${isDevelopment ? "разработка" : "продакшн"}`);
 
-      workers.push(worker);
-      console.log(`Запущен процесс для бота ${config.BOT_NAME}`);
-
-      worker.on("error", (err) => {
-        console.error(`Ошибка в процессе бота ${config.BOT_NAME}:`, err);
-      });
+  // Запускаем каждого бота в отдельном процессе под наблюдением супервизора
+  const supervisor = new WorkerSupervisor(isDevelopment);
+  for (const { config } of botConfigs) {
+    supervisor.start(config);
+  }
 
-      worker.on("exit", (code, signal) => {
-        console.log(
-          `Процесс бота ${
-            config.BOT_NAME
-          } завершился с кодом ${code} (сигнал: ${signal || "нет"})`
-        );
-      });
+  // Следим за папкой configs: новые, измененные и удаленные файлы применяются на лету
+  const configWatcher = new ConfigWatcher(
+    configsFolder,
+    supervisor,
+    botConfigs
+  );
+  configWatcher.start();
+
+  // API управления включается, только если задан токен доступа
+  let adminServer: AdminServer | null = null;
+  if (process.env.ADMIN_API_TOKEN) {
+    adminServer = new AdminServer(supervisor, configWatcher, {
+      host: BOT_DEFAULTS.ADMIN.HOST,
+      port: Number(process.env.ADMIN_API_PORT) || BOT_DEFAULTS.ADMIN.PORT,
+      token: process.env.ADMIN_API_TOKEN,
+    });
+    await adminServer.start();
+  }
 
-      // Добавляем обработчик сообщений от воркера
-      worker.on("message", (message: unknown) => {
-        if (message === "ready") {
-          console.log(
-            `Бот ${config.BOT_NAME} успешно инициализирован и готов к работе`
-          );
-        }
-        // Проверяем, является ли сообщение объектом с типом 'log'
-        else if (
-          typeof message === "object" &&
-          message !== null &&
-          "type" in message &&
-          (message as { type: string }).type === "log" &&
-          "content" in message
-        ) {
-          // Приводим к безопасному типу после проверки
-          const logMessage = message as WorkerLogMessage;
-          console.log(`[${config.BOT_NAME}] ${logMessage.content}`);
-        }
-      });
-    } catch (err) {
-      console.error(`Не удалось запустить бота ${config.BOT_NAME}:`, err);
-      console.error(err);
-    }
+  // Эндпоинт /metrics для Prometheus включается, если задан порт
+  let metricsServer: MetricsServer | null = null;
+  if (process.env.METRICS_PORT) {
+    metricsServer = new MetricsServer(
+      supervisor,
+      process.env.METRICS_HOST || BOT_DEFAULTS.METRICS.HOST,
+      Number(process.env.METRICS_PORT)
+    );
+    await metricsServer.start();
   }
 
+  // Останавливает прием изменений и команд, затем всех ботов
+  const shutdown = async (signal: ProcessSignal) => {
+    configWatcher.close();
+    await adminServer?.close();
+    await metricsServer?.close();
+    await supervisor.stopAll(signal);
+  };
+
+  // По сигналу SIGUSR2 логируем состояние ботов: статус, PID, перезапуски
+  process.on("SIGUSR2", () => {
+    logger.info("Состояние ботов", { bots: supervisor.getSnapshots() });
+  });
+
   // Обработчики сигналов завершения
   process.once("SIGINT", async () => {
-    await stopAllWorkers(workers, "SIGINT");
+    await shutdown("SIGINT");
     process.exit(0);
   });
 
   process.once("SIGTERM", async () => {
-    await stopAllWorkers(workers, "SIGTERM");
+    await shutdown("SIGTERM");
     process.exit(0);
   });
 
   // Обработка необработанных исключений
   process.on("uncaughtException", async (error) => {
-    console.error("Необработанное исключение:", error);
-    await stopAllWorkers(workers, "SIGTERM");
+    logger.error("Необработанное исключение", { error });
+    await shutdown("SIGTERM");
     process.exit(1);
   });
 
-  console.log(
-    `[${new Date().toISOString()}] Все боты запущены и работают. Для завершения нажмите Ctrl+C`
-  );
+  logger.info("Все боты запущены и работают. Для завершения нажмите Ctrl+C");
 }
 
-main().catch(async (err) => {
-  console.error("Ошибка в основной функции:", err);
+main().catch(async (error) => {
+  logger.error("Ошибка в основной функции", { error });
   process.exit(1);
 });
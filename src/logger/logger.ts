@@ -0,0 +1,226 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { LogLevel } from "../types";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Поля записи лога; botName, chatId, userId и correlationId выводятся первыми
+export interface LogFields {
+  botName?: string;
+  chatId?: number | string;
+  userId?: number | string;
+  correlationId?: string;
+  [key: string]: unknown;
+}
+
+const LEVEL_WEIGHTS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const PRETTY_LEVEL_LABELS: Record<LogLevel, string> = {
+  debug: "DEBUG",
+  info: "INFO ",
+  warn: "WARN ",
+  error: "ERROR",
+};
+
+/**
+ * Возвращает уровень логирования из окружения
+ * @returns Уровень из LOG_LEVEL или info
+ */
+function levelFromEnv(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return level && LOG_LEVELS.includes(level) ? level : "info";
+}
+
+// Уровень и формат общие для процесса: каждый бот работает в своем воркере
+let currentLevel: LogLevel = levelFromEnv();
+const useJson =
+  process.env.LOG_FORMAT === "json" ||
+  (process.env.LOG_FORMAT !== "pretty" &&
+    process.env.NODE_ENV === "production");
+
+// Поля текущего апдейта, доступные во всех вызовах в пределах его обработки
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Устанавливает уровень логирования процесса
+ * @param level Минимальный выводимый уровень (по умолчанию из окружения)
+ */
+export function setLogLevel(level?: LogLevel): void {
+  currentLevel = level || levelFromEnv();
+}
+
+/**
+ * Выполняет функцию с полями, которые добавятся ко всем записям лога внутри нее,
+ * включая асинхронные продолжения
+ * @param fields Поля контекста (chatId, userId, correlationId)
+ * @param fn Функция
+ * @returns Результат функции
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  const parent = logContext.getStore();
+  return logContext.run({ ...parent, ...fields }, fn);
+}
+
+/**
+ * Преобразует ошибку в объект, пригодный для JSON
+ * @param error Ошибка
+ * @returns Сериализуемое описание ошибки
+ */
+function serializeError(error: Error): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+
+  // Axios и Telegraf добавляют код и ответ сервера
+  const extra = error as Error & {
+    code?: unknown;
+    response?: { status?: unknown; description?: unknown };
+  };
+  if (extra.code !== undefined) result.code = extra.code;
+  if (extra.response?.status !== undefined) {
+    result.status = extra.response.status;
+  }
+  if (extra.response?.description !== undefined) {
+    result.description = extra.response.description;
+  }
+
+  return result;
+}
+
+/**
+ * Сериализует значение в JSON, пропуская циклические ссылки
+ * @param value Значение
+ * @returns JSON-строка
+ */
+function safeStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+
+  return JSON.stringify(value, (key, item) => {
+    if (item instanceof Error) return serializeError(item);
+    if (typeof item === "object" && item !== null) {
+      if (seen.has(item)) return "[Circular]";
+      seen.add(item);
+    }
+    return item;
+  });
+}
+
+/**
+ * Класс структурированного логгера
+ * В продакшене пишет JSON-строки, в разработке — читаемый текст.
+ * Дочерние логгеры добавляют свои поля ко всем записям
+ */
+export class Logger {
+  private fields: LogFields;
+
+  constructor(fields: LogFields = {}) {
+    this.fields = fields;
+  }
+
+  /**
+   * Создает дочерний логгер с дополнительными полями
+   * @param fields Поля, добавляемые ко всем записям
+   * @returns Новый логгер
+   */
+  public child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Формирует и выводит запись лога
+   * @param level Уровень записи
+   * @param message Текст сообщения
+   * @param fields Дополнительные поля записи
+   * @private
+   */
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_WEIGHTS[level] < LEVEL_WEIGHTS[currentLevel]) return;
+
+    const entry: LogFields = {
+      ...this.fields,
+      ...logContext.getStore(),
+      ...fields,
+    };
+    const stream =
+      level === "warn" || level === "error" ? process.stderr : process.stdout;
+
+    if (useJson) {
+      stream.write(
+        safeStringify({
+          time: new Date().toISOString(),
+          level,
+          msg: message,
+          ...entry,
+        }) + "\n"
+      );
+      return;
+    }
+
+    stream.write(this.formatPretty(level, message, entry) + "\n");
+  }
+
+  /**
+   * Форматирует запись для чтения в консоли
+   * @param level Уровень записи
+   * @param message Текст сообщения
+   * @param entry Поля записи
+   * @returns Строка для вывода
+   * @private
+   */
+  private formatPretty(
+    level: LogLevel,
+    message: string,
+    entry: LogFields
+  ): string {
+    const { botName, error, ...rest } = entry;
+    const time = new Date().toISOString().substring(11, 23);
+    const prefix = botName ? ` [${botName}]` : "";
+
+    const details = Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) =>
+        typeof value === "object" && value !== null
+          ? `${key}=${safeStringify(value)}`
+          : `${key}=${value}`
+      )
+      .join(" ");
+
+    let line = `${time} ${PRETTY_LEVEL_LABELS[level]}${prefix} ${message}`;
+    if (details) line += ` ${details}`;
+
+    if (error instanceof Error) {
+      line += `\n${error.stack || error.message}`;
+    } else if (error !== undefined) {
+      line += `\n${
+        typeof error === "object" ? safeStringify(error) : String(error)
+      }`;
+    }
+
+    return line;
+  }
+}
+
+// Корневой логгер процесса
+export const logger = new Logger();
@@ -0,0 +1,82 @@
+import axios from "axios";
+import { Context } from "telegraf";
+import { BOT_DEFAULTS } from "../constants";
+import { BotConfig } from "../types";
+import { MessageParser } from "./messageParser";
+import { Logger, logger } from "../logger/logger";
+
+/**
+ * Класс загрузки фотографий из сообщений для передачи модели
+ * Фото скачивается и передается как data URL: ссылка на файл Telegram
+ * содержит токен бота, поэтому отдавать ее провайдеру нельзя
+ */
+export class ImageLoader {
+  private config: BotConfig;
+  private messageParser: MessageParser;
+  private logger: Logger;
+
+  constructor(config: BotConfig, messageParser: MessageParser) {
+    this.config = config;
+    this.messageParser = messageParser;
+    this.logger = logger.child({ botName: config.BOT_NAME });
+  }
+
+  /**
+   * Проверяет, включено ли распознавание фотографий
+   * @returns true, если фото нужно передавать модели
+   */
+  public isEnabled(): boolean {
+    return this.config.VISION?.ENABLED === true;
+  }
+
+  /**
+   * Проверяет, есть ли в сообщении фото, которое можно передать модели
+   * @param message Объект сообщения Telegram
+   * @returns true, если распознавание включено и в сообщении есть фото
+   */
+  public hasImage(message: any): boolean {
+    return this.isEnabled() && !!this.messageParser.getLargestPhoto(message);
+  }
+
+  /**
+   * Скачивает самую крупную версию фото из сообщения
+   * @param ctx Контекст Telegraf
+   * @param message Сообщение с фото
+   * @returns Изображение в виде data URL или null, если фото нет, оно слишком
+   * большое или не скачалось — тогда сообщение обрабатывается только по тексту
+   */
+  public async loadPhoto(ctx: Context, message: any): Promise<string | null> {
+    if (!this.isEnabled()) return null;
+
+    const photo = this.messageParser.getLargestPhoto(message);
+    if (!photo) return null;
+
+    const maxBytes =
+      this.config.VISION?.MAX_IMAGE_BYTES ||
+      BOT_DEFAULTS.VISION.MAX_IMAGE_BYTES;
+    if (photo.file_size && photo.file_size > maxBytes) {
+      this.logger.info("Фото слишком большое, используется только текст", {
+        size: photo.file_size,
+      });
+      return null;
+    }
+
+    try {
+      const fileLink = await ctx.telegram.getFileLink(photo.file_id);
+      const response = await axios.get<ArrayBuffer>(fileLink.href, {
+        responseType: "arraybuffer",
+        timeout: BOT_DEFAULTS.VISION.DOWNLOAD_TIMEOUT_MS,
+        maxContentLength: maxBytes,
+      });
+
+      // Telegram хранит сжатые фотографии в JPEG
+      const base64 = Buffer.from(response.data).toString("base64");
+      return `data:image/jpeg;base64,${base64}`;
+    } catch (error) {
+      this.logger.warn("Не удалось скачать фото, используется только текст", {
+        error,
+      });
+      return null;
+    }
+  }
+}
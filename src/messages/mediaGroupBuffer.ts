@@ -0,0 +1,90 @@
+import { Context } from "telegraf";
+import { Logger, logger } from "../logger/logger";
+
+interface PendingGroup {
+  contexts: Context[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Класс буфера альбомов
+ * Telegram присылает альбом отдельными сообщениями с общим media_group_id.
+ * Части собираются, пока следующая приходит не позже windowMs после предыдущей,
+ * затем альбом целиком передается обработчику
+ */
+export class MediaGroupBuffer {
+  private windowMs: number;
+  private onGroup: (ctx: Context, messages: any[]) => Promise<void>;
+  private logger: Logger;
+  private groups: Map<string, PendingGroup> = new Map();
+
+  /**
+   * @param botName Имя бота для логов
+   * @param windowMs Сколько ждать следующую часть альбома
+   * @param onGroup Обработчик альбома: контекст первой части и все части по порядку
+   */
+  constructor(
+    botName: string,
+    windowMs: number,
+    onGroup: (ctx: Context, messages: any[]) => Promise<void>
+  ) {
+    this.windowMs = windowMs;
+    this.onGroup = onGroup;
+    this.logger = logger.child({ botName });
+  }
+
+  /**
+   * Добавляет часть альбома и откладывает обработку до прихода остальных
+   * @param ctx Контекст Telegraf с сообщением, у которого есть media_group_id
+   */
+  public add(ctx: Context): void {
+    const message: any = ctx.message;
+    const key = `${ctx.chat?.id}_${message.media_group_id}`;
+
+    const group = this.groups.get(key);
+    if (group) clearTimeout(group.timer);
+
+    const contexts = group ? group.contexts : [];
+    contexts.push(ctx);
+
+    this.groups.set(key, {
+      contexts,
+      timer: setTimeout(() => this.flush(key), this.windowMs),
+    });
+  }
+
+  /**
+   * Отбрасывает недособранные альбомы при остановке бота
+   */
+  public clear(): void {
+    for (const group of this.groups.values()) {
+      clearTimeout(group.timer);
+    }
+    this.groups.clear();
+  }
+
+  /**
+   * Передает собранный альбом обработчику
+   * @param key Ключ альбома
+   * @private
+   */
+  private async flush(key: string): Promise<void> {
+    const group = this.groups.get(key);
+    if (!group) return;
+    this.groups.delete(key);
+
+    // Части могут прийти не по порядку; пост в Telegram — первая часть альбома
+    const contexts = group.contexts.sort(
+      (a, b) => a.message!.message_id - b.message!.message_id
+    );
+
+    try {
+      await this.onGroup(
+        contexts[0],
+        contexts.map((ctx) => ctx.message)
+      );
+    } catch (error) {
+      this.logger.error("Error handling media group", { error });
+    }
+  }
+}
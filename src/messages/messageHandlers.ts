@@ -1,38 +1,78 @@
 import { Context } from "telegraf";
 import axios from "axios";
 import { BOT_DEFAULTS } from "../constants";
-import { ChatMessage, UserContext } from "../types";
+import { ChatMessage, PostTopic, UsageScope, UserContext } from "../types";
 import { ApiService } from "../api/apiService";
+import { CircuitOpenError } from "../api/circuitBreaker";
+import { RequestDroppedError } from "../api/requestScheduler";
 import { ContextManager } from "../context/contextManager";
+import { createPostKey, createUserKey } from "../context/contextKeys";
+import { estimateMessageTokens } from "../context/tokenEstimator";
+import { ConversationSummarizer } from "../context/conversationSummarizer";
+import { ChatSettingsManager } from "../settings/chatSettingsManager";
+import { UsageTracker } from "../usage/usageTracker";
 import { MessageParser } from "./messageParser";
-import { MessageSender } from "./messageSender";
+import { MessageSender, SendResult } from "./messageSender";
+import { ImageLoader } from "./imageLoader";
+import { VoiceTranscriber } from "./voiceTranscriber";
+import {
+  countContentImages,
+  createImageContent,
+  toTextOnlyMessages,
+} from "../api/chatContent";
+import { Logger, logger } from "../logger/logger";
 import { BotConfig } from "../types";
 
+// Изображение к сообщению пользователя и можно ли ответить без него
+interface MessageImage {
+  url: string;
+  canDrop: boolean;
+}
+
 export class MessageHandlers {
   private apiService: ApiService;
   private contextManager: ContextManager;
+  private chatSettings: ChatSettingsManager;
   private messageParser: MessageParser;
   private messageSender: MessageSender;
+  private summarizer: ConversationSummarizer;
+  private usageTracker: UsageTracker;
+  private imageLoader: ImageLoader;
+  private voiceTranscriber: VoiceTranscriber;
   private config: BotConfig;
   private botInfo: any;
   private startupTime: number;
+  private logger: Logger;
+  // Предупреждение о нехватке бюджета на историю уже выводилось
+  private historyBudgetWarned: boolean = false;
 
   constructor(
     config: BotConfig,
     apiService: ApiService,
     contextManager: ContextManager,
+    chatSettings: ChatSettingsManager,
     messageParser: MessageParser,
     messageSender: MessageSender,
+    summarizer: ConversationSummarizer,
+    usageTracker: UsageTracker,
+    imageLoader: ImageLoader,
+    voiceTranscriber: VoiceTranscriber,
     botInfo: any,
     startupTime: number
   ) {
     this.config = config;
     this.apiService = apiService;
     this.contextManager = contextManager;
+    this.chatSettings = chatSettings;
     this.messageParser = messageParser;
     this.messageSender = messageSender;
+    this.summarizer = summarizer;
+    this.usageTracker = usageTracker;
+    this.imageLoader = imageLoader;
+    this.voiceTranscriber = voiceTranscriber;
     this.botInfo = botInfo;
     this.startupTime = startupTime;
+    this.logger = logger.child({ botName: config.BOT_NAME });
   }
 
   /**
@@ -43,15 +83,59 @@ export class MessageHandlers {
     if (!message) return;
 
     try {
-      console.log(`[${this.config.BOT_NAME}] Получено сообщение:`, text);
+      this.logger.info("Получено сообщение", { text });
+
+      // При исчерпанном лимите отвечаем отказом, не обращаясь к модели
+      const usageScope = this.getUsageScope(ctx);
+      const exceededQuota = this.usageTracker.checkQuota(usageScope);
+      if (exceededQuota) {
+        this.logger.info("Лимит токенов исчерпан", { quota: exceededQuota });
+        await this.messageSender.sendErrorMessage(
+          ctx,
+          this.usageTracker.getQuotaExceededMessage(),
+          message.message_id
+        );
+        return;
+      }
+
+      // Голосовое расшифровываем и дальше обрабатываем как текст пользователя
+      if (this.voiceTranscriber.hasAudio(message)) {
+        const transcript = await this.transcribeMessage(ctx, message);
+        if (transcript === null) return;
+
+        text = [text, transcript].filter(Boolean).join("\n");
+      }
 
       // Создаем ключ пользователя и извлекаем очищенный текст
-      const userKey = this.createUserKey(ctx);
+      const userKey = createUserKey(ctx, this.botInfo?.id);
       const cleanText = this.messageParser.cleanMentionFromText(
         text,
         this.botInfo?.username
       );
 
+      // Фото из сообщения или из сообщения, на которое ответил пользователь
+      const imageUrl = await this.loadMessageImage(ctx, message);
+      const userText = imageUrl ? this.addPhotoMarker(cleanText) : cleanText;
+      const image = imageUrl
+        ? { url: imageUrl, canDrop: cleanText.trim() !== "" }
+        : undefined;
+
+      // Ответ в ветке комментариев к посту продолжает беседу в контексте поста,
+      // общем для всех участников ветки
+      const threadContext = this.findThreadContext(ctx, message);
+      if (threadContext) {
+        threadContext.activeConversation = true;
+        await this.processUserMessage(
+          ctx,
+          this.formatThreadMessage(message, userText),
+          threadContext,
+          message,
+          usageScope,
+          image
+        );
+        return;
+      }
+
       // Получаем или создаем контекст пользователя
       let userContext = this.contextManager.getUserContext(userKey);
 
@@ -59,10 +143,22 @@ export class MessageHandlers {
       userContext.activeConversation = true;
 
       // Проверяем, является ли сообщение ответом на пост канала
-      await this.checkAndUpdateContextWithReplyInfo(message, userContext);
+      await this.checkAndUpdateContextWithReplyInfo(
+        message,
+        userContext,
+        usageScope
+      );
+      this.contextManager.saveContext(userContext);
 
       // Обрабатываем сообщение пользователя
-      await this.processUserMessage(ctx, cleanText, userContext, message);
+      await this.processUserMessage(
+        ctx,
+        userText,
+        userContext,
+        message,
+        usageScope,
+        image
+      );
     } catch (error) {
       await this.handleMessageError(ctx, message, error);
     }
@@ -70,80 +166,153 @@ export class MessageHandlers {
 
   /**
    * Обрабатывает комментирование поста
+   * @param ctx Контекст Telegraf (у альбома — контекст первой части)
+   * @param postText Текст поста или объединенные подписи альбома
+   * @param albumMessages Все части альбома, если пост — альбом
    */
-  public async commentPost(ctx: Context, postText: string): Promise<void> {
+  public async commentPost(
+    ctx: Context,
+    postText: string,
+    albumMessages?: any[]
+  ): Promise<void> {
     try {
       const message = ctx.message;
       if (!message) return;
 
-      if (!postText || postText.length < BOT_DEFAULTS.POSTS.MIN_TEXT_LENGTH)
-        return;
+      const postMessages = albumMessages || [message];
 
-      console.log(
-        `[${this.config.BOT_NAME}] Комментирование поста:`,
-        postText.substring(0, 50) + (postText.length > 50 ? "..." : "")
+      // Пост из одних фото комментируем, только если модель их увидит
+      const hasEnoughText =
+        !!postText && postText.length >= BOT_DEFAULTS.POSTS.MIN_TEXT_LENGTH;
+      const hasImage = postMessages.some((postMessage) =>
+        this.imageLoader.hasImage(postMessage)
       );
+      if (!hasEnoughText && !hasImage) return;
 
-      // Создаем ключ для контекста поста
-      const postKey = this.createPostKey(ctx);
+      // При исчерпанном лимите пост просто остается без комментария
+      const usageScope = this.getUsageScope(ctx);
+      const exceededQuota = this.usageTracker.checkQuota(usageScope);
+      if (exceededQuota) {
+        this.logger.info("Лимит токенов исчерпан, пост без комментария", {
+          quota: exceededQuota,
+        });
+        return;
+      }
 
-      // Определяем тему поста
-      const postTopic = await this.apiService.inferPostTopic(postText);
-      console.log(`[${this.config.BOT_NAME}] Тема поста: ${postTopic}`);
+      this.logger.info("Комментирование поста", {
+        text: postText.substring(0, 50) + (postText.length > 50 ? "..." : ""),
+      });
 
-      // Получаем контекст или создаем новый
-      let postContext = this.contextManager.getPostContext(postKey, postTopic);
+      const imageUrls = await this.loadPostImages(ctx, postMessages);
+      if (!hasEnoughText && imageUrls.length === 0) return;
+
+      // Создаем ключ для контекста поста
+      const postKey = createPostKey(ctx, this.botInfo?.id);
+
+      // Определяем тему поста; у фото без подписи тема общая
+      const postTopic: PostTopic = postText
+        ? await this.apiService.inferPostTopic(postText, usageScope)
+        : { topic: BOT_DEFAULTS.POSTS.DEFAULT_TOPIC, keywords: [] };
+      this.logger.info("Тема поста определена", { ...postTopic });
 
       // Обрабатываем длинные тексты
-      const truncatedPostText = this.truncateTextIfNeeded(
+      let truncatedPostText = this.truncateTextIfNeeded(
         postText,
         BOT_DEFAULTS.MESSAGES.MAX_SAFE_LENGTH
       );
+      if (albumMessages) {
+        truncatedPostText = `${this.describeAlbum(
+          albumMessages
+        )} ${truncatedPostText}`.trim();
+      } else if (imageUrls.length > 0) {
+        truncatedPostText = this.addPhotoMarker(truncatedPostText);
+      }
+
+      const commentPrompt = this.getPostCommentPrompt(truncatedPostText);
+      const messages: ChatMessage[] = [
+        { role: "system", content: this.getSystemPrompt(ctx) },
+        { role: "system", content: this.describePostTopic(postTopic) },
+        {
+          role: "user",
+          content:
+            imageUrls.length > 0
+              ? createImageContent(commentPrompt, imageUrls)
+              : commentPrompt,
+        },
+      ];
 
       // Получаем ответ
-      const botComment = await this.apiService.callApiWithRetry([
-        { role: "system", content: this.getSystemPrompt() },
-        { role: "user", content: this.getPostCommentPrompt(truncatedPostText) },
-      ]);
+      const botComment = await this.callWithImageFallback(
+        messages,
+        (request) =>
+          this.apiService.callApiWithRetry(request, "post_comment", usageScope),
+        hasEnoughText
+      );
+
+      // Модель не приняла фото, а без него в посте нечего комментировать
+      if (botComment === null) return;
+
+      // Получаем контекст или создаем новый
+      const postContext = this.contextManager.getPostContext(
+        postKey,
+        postTopic
+      );
 
       // Сохраняем в контексте поста
-      this.updatePostContext(postContext, truncatedPostText, botComment);
+      this.updatePostContext(
+        ctx,
+        postContext,
+        truncatedPostText,
+        botComment,
+        usageScope
+      );
 
       // Отправляем комментарий
       await this.sendPostComment(ctx, botComment, message.message_id);
     } catch (error) {
-      console.error(`[${this.config.BOT_NAME}] Error commenting post:`, error);
+      // Комментарий, не дождавшийся очереди, уже неактуален
+      if (error instanceof RequestDroppedError) {
+        this.logger.info("Комментарий к посту отброшен очередью", {
+          reason: error.reason,
+        });
+        return;
+      }
+
+      this.logger.error("Error commenting post", { error });
 
       // Простое сообщение об ошибке
       try {
         await ctx.reply("Не могу прокомментировать этот пост 🤔");
       } catch (e) {
-        console.error(
-          `[${this.config.BOT_NAME}] Failed to send error message:`,
-          e
-        );
+        this.logger.error("Failed to send error message", { error: e });
       }
     }
   }
 
   /**
-   * Создает уникальный ключ для контекста пользователя
+   * Находит контекст поста, если сообщение написано в ветке комментариев к нему
+   * @returns Контекст поста или undefined, если бот не комментировал этот пост
    */
-  private createUserKey(ctx: Context): string {
-    const userId = ctx.message?.from ? ctx.message.from.id : "unknown";
-    const chatId = ctx.chat?.id || "unknown";
-    const botId = this.botInfo?.id || "unknown";
-    return `${chatId}_${userId}_${botId}`;
+  private findThreadContext(
+    ctx: Context,
+    message: any
+  ): UserContext | undefined {
+    const threadId = this.messageParser.getCommentThreadId(message);
+    if (!threadId) return undefined;
+
+    const postKey = createPostKey(ctx, this.botInfo?.id, threadId);
+    return this.contextManager.findPostContext(postKey);
   }
 
   /**
-   * Создает уникальный ключ для контекста поста
+   * Подписывает сообщение автором, чтобы модель различала участников ветки
    */
-  private createPostKey(ctx: Context): string {
-    const chatId = ctx.chat?.id || "unknown";
-    const messageId = ctx.message?.message_id || "unknown";
-    const botId = this.botInfo?.id || "unknown";
-    return `post_${chatId}_${messageId}_${botId}`;
+  private formatThreadMessage(message: any, text: string): string {
+    const author = message.sender_chat
+      ? message.sender_chat.title
+      : message.from?.first_name || message.from?.username;
+
+    return author ? `${author}: ${text}` : text;
   }
 
   /**
@@ -151,7 +320,8 @@ export class MessageHandlers {
    */
   private async checkAndUpdateContextWithReplyInfo(
     message: any,
-    userContext: UserContext
+    userContext: UserContext,
+    usageScope: UsageScope
   ): Promise<void> {
     if ("reply_to_message" in message && message.reply_to_message) {
       const replyMessage = message.reply_to_message;
@@ -162,7 +332,8 @@ export class MessageHandlers {
           this.messageParser.isChannelPost(replyMessage);
         if (isReplyToChannelPost) {
           userContext.postTopic = await this.apiService.inferPostTopic(
-            replyText
+            replyText,
+            usageScope
           );
         }
       }
@@ -176,7 +347,9 @@ export class MessageHandlers {
     ctx: Context,
     text: string,
     userContext: UserContext,
-    message: any
+    message: any,
+    usageScope: UsageScope,
+    image?: MessageImage
   ): Promise<void> {
     // Проверяем длину сообщения пользователя
     const truncatedText = this.truncateTextIfNeeded(
@@ -190,16 +363,46 @@ export class MessageHandlers {
     userContext.messageCount++;
 
     // Ограничиваем длину истории
-    this.limitMessageHistory(userContext);
+    this.limitMessageHistory(userContext, ctx, usageScope);
+    this.contextManager.saveContext(userContext);
 
-    // Формируем сообщения для API
-    const messages = this.prepareMessagesForApi(userContext);
+    // Формируем сообщения для API; изображение передается только в этом запросе
+    const messages = this.prepareMessagesForApi(userContext, ctx);
+    if (image) this.attachImage(messages, image.url);
 
     // Индикатор набора текста
     await this.messageSender.sendTypingIndicator(ctx);
 
+    // Если провайдер поддерживает потоковый режим, показываем ответ по мере генерации
+    if (this.apiService.supportsStreaming()) {
+      const streamedReply = await this.callWithImageFallback(
+        messages,
+        (request) =>
+          this.streamReply(ctx, request, message.message_id, usageScope),
+        image?.canDrop ?? true
+      );
+      if (streamedReply === null) {
+        await this.sendImageRejected(ctx, message);
+        return;
+      }
+
+      userContext.messages.push({ role: "assistant", content: streamedReply });
+      userContext.messageCount++;
+      this.contextManager.saveContext(userContext);
+      return;
+    }
+
     // Получаем ответ от API
-    const botReply = await this.apiService.callApiWithRetry(messages);
+    const botReply = await this.callWithImageFallback(
+      messages,
+      (request) =>
+        this.apiService.callApiWithRetry(request, "direct_reply", usageScope),
+      image?.canDrop ?? true
+    );
+    if (botReply === null) {
+      await this.sendImageRejected(ctx, message);
+      return;
+    }
 
     // Проверка и обработка ответа
     const sanitizedReply = this.sanitizeResponse(botReply);
@@ -207,13 +410,231 @@ export class MessageHandlers {
     // Сохраняем ответ бота в контексте
     userContext.messages.push({ role: "assistant", content: sanitizedReply });
     userContext.messageCount++;
+    this.contextManager.saveContext(userContext);
 
     // Отправляем ответ
-    await this.messageSender.sendSplitMessage(
+    const sendResult = await this.messageSender.sendSplitMessage(
       ctx,
       sanitizedReply,
       message.message_id
     );
+    this.logUndeliveredParts(sendResult);
+  }
+
+  /**
+   * Расшифровывает голосовое сообщение и при необходимости показывает расшифровку
+   * Если расшифровать не удалось, сообщает об этом пользователю
+   * @returns Текст расшифровки или null, если отвечать не на что
+   */
+  private async transcribeMessage(
+    ctx: Context,
+    message: any
+  ): Promise<string | null> {
+    const audio = this.messageParser.getAudioAttachment(message)!;
+
+    if (this.voiceTranscriber.isTooLong(audio)) {
+      this.logger.info("Голосовое слишком длинное для расшифровки", {
+        duration: audio.duration,
+      });
+      await this.messageSender.sendErrorMessage(
+        ctx,
+        "Слишком длинное сообщение, я столько не выслушаю. Запиши покороче или напиши текстом.",
+        message.message_id
+      );
+      return null;
+    }
+
+    let transcript: string;
+    try {
+      transcript = await this.voiceTranscriber.transcribe(ctx, audio);
+    } catch (error) {
+      this.logger.error("Error transcribing voice message", { error });
+      await this.messageSender.sendErrorMessage(
+        ctx,
+        "Не получилось разобрать голосовое, напиши текстом.",
+        message.message_id
+      );
+      return null;
+    }
+
+    if (!transcript) {
+      await this.messageSender.sendErrorMessage(
+        ctx,
+        "Ничего не расслышал, повтори, пожалуйста.",
+        message.message_id
+      );
+      return null;
+    }
+
+    this.logger.info("Голосовое расшифровано", {
+      duration: audio.duration,
+      length: transcript.length,
+    });
+
+    if (this.voiceTranscriber.shouldEchoTranscript()) {
+      await this.messageSender.sendSplitMessage(
+        ctx,
+        `🗣 ${transcript}`,
+        message.message_id
+      );
+    }
+
+    return transcript;
+  }
+
+  /**
+   * Загружает фото из сообщения, а если его нет — из сообщения, на которое ответил пользователь
+   * @returns Изображение в виде data URL или null
+   */
+  private async loadMessageImage(
+    ctx: Context,
+    message: any
+  ): Promise<string | null> {
+    if (this.messageParser.getLargestPhoto(message)) {
+      return this.imageLoader.loadPhoto(ctx, message);
+    }
+
+    return message.reply_to_message
+      ? this.imageLoader.loadPhoto(ctx, message.reply_to_message)
+      : null;
+  }
+
+  /**
+   * Загружает фото поста; у альбома — не больше MAX_ALBUM_IMAGES первых
+   * @returns Изображения в виде data URL (пустой массив, если фото нет или они не скачались)
+   */
+  private async loadPostImages(
+    ctx: Context,
+    postMessages: any[]
+  ): Promise<string[]> {
+    const photoMessages = postMessages
+      .filter((postMessage) => this.messageParser.getLargestPhoto(postMessage))
+      .slice(0, BOT_DEFAULTS.VISION.MAX_ALBUM_IMAGES);
+
+    const imageUrls: string[] = [];
+    for (const photoMessage of photoMessages) {
+      const imageUrl = await this.imageLoader.loadPhoto(ctx, photoMessage);
+      if (imageUrl) imageUrls.push(imageUrl);
+    }
+
+    return imageUrls;
+  }
+
+  /**
+   * Описывает состав альбома для модели и истории, например «[Альбом: 3 фото, 1 видео]»
+   */
+  private describeAlbum(albumMessages: any[]): string {
+    const photos = albumMessages.filter((item) => item.photo).length;
+    const videos = albumMessages.filter((item) => item.video).length;
+    const others = albumMessages.length - photos - videos;
+
+    const items = [
+      photos ? `${photos} фото` : "",
+      videos ? `${videos} видео` : "",
+      others ? `файлов: ${others}` : "",
+    ].filter(Boolean);
+
+    return `[Альбом: ${items.join(", ")}]`;
+  }
+
+  /**
+   * Помечает текст как сопровождающий фото, чтобы в истории было видно, что фото было
+   */
+  private addPhotoMarker(text: string): string {
+    return `${BOT_DEFAULTS.VISION.PHOTO_MARKER} ${text}`.trim();
+  }
+
+  /**
+   * Заменяет последнее сообщение пользователя на сообщение с изображением
+   * Сообщения истории не изменяются, заменяется только элемент массива запроса
+   * @param messages Сообщения для API
+   * @param imageUrl Изображение в виде data URL
+   */
+  private attachImage(messages: ChatMessage[], imageUrl: string): void {
+    const lastIndex = messages.length - 1;
+    const last = messages[lastIndex];
+    if (!last || last.role !== "user" || typeof last.content !== "string") {
+      return;
+    }
+
+    messages[lastIndex] = {
+      role: "user",
+      content: createImageContent(last.content, [imageUrl]),
+    };
+  }
+
+  /**
+   * Выполняет запрос к модели, а если модель не приняла изображение,
+   * повторяет его только с текстом
+   * @param messages Сообщения для модели, возможно с изображением
+   * @param call Запрос к модели
+   * @param canDropImage Можно ли ответить по тексту без изображения
+   * @returns Ответ модели или null, если без изображения отвечать не на что
+   */
+  private async callWithImageFallback<T>(
+    messages: ChatMessage[],
+    call: (messages: ChatMessage[]) => Promise<T>,
+    canDropImage: boolean
+  ): Promise<T | null> {
+    try {
+      return await call(messages);
+    } catch (error) {
+      const hasImage = messages.some(
+        (msg) => countContentImages(msg.content) > 0
+      );
+      if (!hasImage || !this.apiService.isRejectedRequest(error)) throw error;
+
+      this.logger.warn("Модель не приняла изображение", { error });
+      if (!canDropImage) return null;
+
+      return call(toTextOnlyMessages(messages));
+    }
+  }
+
+  /**
+   * Сообщает пользователю, что фото без подписи разобрать не удалось
+   */
+  private async sendImageRejected(ctx: Context, message: any): Promise<void> {
+    await this.messageSender.sendErrorMessage(
+      ctx,
+      "Не могу разглядеть картинку, опиши словами, что на ней.",
+      message.message_id
+    );
+  }
+
+  /**
+   * Получает ответ потоком и выводит его с постепенным редактированием сообщения
+   * @returns Итоговый обработанный текст ответа
+   */
+  private async streamReply(
+    ctx: Context,
+    messages: ChatMessage[],
+    replyToMessageId: number,
+    usageScope: UsageScope
+  ): Promise<string> {
+    const reply = this.messageSender.createStreamingReply(
+      ctx,
+      replyToMessageId
+    );
+    await reply.start();
+
+    try {
+      const botReply = await this.apiService.callApiStreaming(
+        messages,
+        (delta) => reply.append(delta),
+        "direct_reply",
+        usageScope
+      );
+
+      // Итоговый текст проходит ту же проверку, что и обычный ответ
+      const sanitizedReply = this.sanitizeResponse(botReply);
+      await reply.finish(sanitizedReply);
+
+      return sanitizedReply;
+    } catch (error) {
+      await reply.abort();
+      throw error;
+    }
   }
 
   /**
@@ -224,10 +645,27 @@ export class MessageHandlers {
     message: any,
     error: any
   ): Promise<void> {
-    console.error(
-      `[${this.config.BOT_NAME}] Error handling direct message:`,
-      error
-    );
+    this.logger.error("Error handling direct message", { error });
+
+    // Провайдер недоступен после серии ошибок, запрос к нему даже не отправлялся
+    if (error instanceof CircuitOpenError) {
+      await this.messageSender.sendErrorMessage(
+        ctx,
+        "Я ненадолго отошел, напиши мне через пару минут.",
+        message.message_id
+      );
+      return;
+    }
+
+    // Запрос не дождался очереди к модели
+    if (error instanceof RequestDroppedError) {
+      await this.messageSender.sendErrorMessage(
+        ctx,
+        "Меня сейчас засыпали сообщениями, спроси еще раз чуть позже.",
+        message.message_id
+      );
+      return;
+    }
 
     // Обработка специфических ошибок
     if (axios.isAxiosError(error)) {
@@ -259,36 +697,72 @@ export class MessageHandlers {
           { reply_to_message_id: message.message_id }
         );
       } catch (replyError) {
-        console.error(
-          `[${this.config.BOT_NAME}] Error sending error message:`,
-          replyError
-        );
+        this.logger.warn("Error sending error message", {
+          error: replyError,
+        });
         // Пробуем отправить без reply
         try {
           await ctx.reply(
             "Ой, что-то пошло не так 🤖 Технические проблемы, попробуй позже."
           );
         } catch (e) {
-          console.error(
-            `[${this.config.BOT_NAME}] Could not send any error message:`,
-            e
-          );
+          this.logger.error("Could not send any error message", { error: e });
         }
       }
     }
   }
 
+  /**
+   * Определяет, на какой чат и пользователя записывать расход токенов
+   * Сообщения от имени канала или чата учитываются только на чат
+   */
+  private getUsageScope(ctx: Context): UsageScope {
+    const chat: any = ctx.chat;
+    const message: any = ctx.message;
+    const from = message?.sender_chat ? undefined : message?.from;
+
+    return {
+      chatId: chat.id,
+      userId: from?.id,
+      chatLabel: chat.title || chat.username || chat.first_name,
+      userLabel:
+        from && (from.username ? `@${from.username}` : from.first_name),
+    };
+  }
+
   /**
    * Подготавливает сообщения для API
    */
-  private prepareMessagesForApi(userContext: UserContext): ChatMessage[] {
+  private prepareMessagesForApi(
+    userContext: UserContext,
+    ctx: Context
+  ): ChatMessage[] {
+    const messages = this.buildSystemMessages(userContext, ctx);
+
+    // Добавляем столько последних сообщений истории, сколько помещается в бюджет
+    const relevantMessages = this.getRelevantMessages(
+      userContext.messages,
+      this.getHistoryTokenBudget(messages)
+    );
+    messages.push(...relevantMessages);
+
+    return messages;
+  }
+
+  /**
+   * Формирует системные сообщения промпта: роль, тему, текст поста и выжимку
+   */
+  private buildSystemMessages(
+    userContext: UserContext,
+    ctx: Context
+  ): ChatMessage[] {
     // Проверяем, нужно ли напомнить о настройках
     const needsReminderOfRole =
       userContext.messageCount % BOT_DEFAULTS.MESSAGES.REMINDER_INTERVAL === 0;
 
     // Начинаем с системного сообщения
     const messages: ChatMessage[] = [
-      { role: "system", content: this.getSystemPrompt() },
+      { role: "system", content: this.getSystemPrompt(ctx) },
     ];
 
     // Если нужно напомнить о роли
@@ -303,13 +777,29 @@ export class MessageHandlers {
     if (userContext.postTopic) {
       messages.push({
         role: "system",
-        content: `Текущая тема обсуждения: ${userContext.postTopic}`,
+        content: this.describePostTopic(userContext.postTopic),
       });
     }
 
-    // Добавляем историю сообщений, выбирая наиболее релевантные
-    const relevantMessages = this.getRelevantMessages(userContext.messages);
-    messages.push(...relevantMessages);
+    // В ветке комментариев напоминаем текст поста, который мог уйти из истории
+    if (userContext.postText) {
+      const postText = this.truncateTextIfNeeded(
+        userContext.postText,
+        BOT_DEFAULTS.POSTS.THREAD_POST_TEXT_MAX_LENGTH
+      );
+      messages.push({
+        role: "system",
+        content: `Беседа идет в комментариях к посту канала. Текст поста: ${postText}`,
+      });
+    }
+
+    // Добавляем выжимку более ранней части беседы
+    if (userContext.summary) {
+      messages.push({
+        role: "system",
+        content: `Краткое содержание предыдущей беседы: ${userContext.summary}`,
+      });
+    }
 
     return messages;
   }
@@ -322,56 +812,187 @@ export class MessageHandlers {
     comment: string,
     replyToMessageId: number
   ): Promise<void> {
-    try {
-      await this.messageSender.sendSplitMessage(ctx, comment, replyToMessageId);
-    } catch (error) {
-      console.error(
-        `[${this.config.BOT_NAME}] Error sending comment, trying without reply:`,
-        error
-      );
-      // Если не получается ответить на сообщение, отправляем без reply
-      await this.messageSender.sendSplitMessage(ctx, comment);
-    }
+    // Без reply_to отправитель повторяет сам, если ответить на пост не получилось
+    const sendResult = await this.messageSender.sendSplitMessage(
+      ctx,
+      comment,
+      replyToMessageId
+    );
+    this.logUndeliveredParts(sendResult);
+  }
+
+  /**
+   * Сообщает о частях ответа, которые не дошли до чата
+   * В контексте остается полный ответ, поэтому модель не повторит пропущенное
+   */
+  private logUndeliveredParts(sendResult: SendResult): void {
+    if (sendResult.undeliveredParts.length === 0) return;
+
+    this.logger.warn("Часть ответа не доставлена", {
+      delivered: sendResult.deliveredParts,
+      undelivered: sendResult.undeliveredParts.length,
+    });
   }
 
   /**
    * Обновляет контекст поста
    */
   private updatePostContext(
+    ctx: Context,
     postContext: UserContext,
     postText: string,
-    botComment: string
+    botComment: string,
+    usageScope: UsageScope
   ): void {
-    postContext.messages.push({ role: "user", content: postText });
+    // Текст поста хранится отдельно и не вытесняется из истории ответами в ветке
+    postContext.postText = postText;
     postContext.messages.push({ role: "assistant", content: botComment });
-    postContext.messageCount += 2;
+    postContext.messageCount++;
     postContext.lastInteraction = Date.now();
 
     // Ограничиваем длину истории
-    this.limitMessageHistory(postContext);
+    this.limitMessageHistory(postContext, ctx, usageScope);
+    this.contextManager.saveContext(postContext);
   }
 
   /**
-   * Ограничивает длину истории сообщений в контексте
+   * Ограничивает историю сообщений в контексте
+   * Когда история не помещается в бюджет токенов промпта или превышает
+   * MAX_LENGTH, она сокращается с запасом, а вытесненные сообщения
+   * сворачиваются в выжимку в фоне. Так каждое сообщение остается
+   * либо в промпте, либо в выжимке
    */
-  private limitMessageHistory(context: UserContext): void {
-    if (context.messages.length > BOT_DEFAULTS.HISTORY.MAX_LENGTH) {
-      context.messages = context.messages.slice(
-        -BOT_DEFAULTS.HISTORY.MAX_LENGTH
-      );
+  private limitMessageHistory(
+    context: UserContext,
+    ctx: Context,
+    usageScope: UsageScope
+  ): void {
+    // Место под выжимку резервируется заранее: она может вырасти
+    // до SUMMARY_MAX_TOKENS и вытеснить из промпта часть истории
+    const systemMessages = this.buildSystemMessages(
+      { ...context, summary: undefined },
+      ctx
+    );
+    const historyBudget = Math.max(
+      0,
+      this.getHistoryTokenBudget(systemMessages) -
+        BOT_DEFAULTS.HISTORY.SUMMARY_MAX_TOKENS
+    );
+
+    // Бюджет целиком уходит на системные сообщения: сокращение по токенам
+    // вытесняло бы всю историю и запускало выжимку на каждом сообщении,
+    // поэтому остается только ограничение по количеству
+    if (historyBudget === 0) {
+      this.warnHistoryBudgetExhausted();
+      this.limitMessageHistoryByCount(context, usageScope);
+      return;
+    }
+
+    const fitsBudget =
+      this.getRelevantMessages(context.messages, historyBudget).length ===
+      context.messages.length;
+    if (
+      fitsBudget &&
+      context.messages.length <= BOT_DEFAULTS.HISTORY.MAX_LENGTH
+    ) {
+      return;
     }
+
+    // Сокращаем с запасом, чтобы выжимка не пересчитывалась на каждом сообщении
+    const keptMessages = this.getRelevantMessages(
+      context.messages,
+      historyBudget * BOT_DEFAULTS.HISTORY.TRIMMED_BUDGET_SHARE
+    ).slice(-BOT_DEFAULTS.HISTORY.DEFAULT_LENGTH);
+    const droppedMessages = context.messages.slice(
+      0,
+      context.messages.length - keptMessages.length
+    );
+
+    context.messages = keptMessages;
+    this.summarizer.summarizeInBackground(context, droppedMessages, usageScope);
   }
 
   /**
-   * Возвращает наиболее релевантные сообщения из истории
+   * Сокращает историю до DEFAULT_LENGTH при превышении MAX_LENGTH
+   * и сворачивает вытесненные сообщения в выжимку
    */
-  private getRelevantMessages(messages: ChatMessage[]): ChatMessage[] {
-    if (messages.length <= BOT_DEFAULTS.HISTORY.RELEVANT_LENGTH) {
-      return messages;
+  private limitMessageHistoryByCount(
+    context: UserContext,
+    usageScope: UsageScope
+  ): void {
+    if (context.messages.length <= BOT_DEFAULTS.HISTORY.MAX_LENGTH) return;
+
+    const keepFrom =
+      context.messages.length - BOT_DEFAULTS.HISTORY.DEFAULT_LENGTH;
+    const droppedMessages = context.messages.slice(0, keepFrom);
+
+    context.messages = context.messages.slice(keepFrom);
+    this.summarizer.summarizeInBackground(context, droppedMessages, usageScope);
+  }
+
+  /**
+   * Предупреждает, что на историю не остается бюджета токенов
+   * Предупреждение выводится один раз, чтобы не засорять лог
+   */
+  private warnHistoryBudgetExhausted(): void {
+    if (this.historyBudgetWarned) return;
+    this.historyBudgetWarned = true;
+
+    this.logger.warn(
+      "CONTEXT_TOKEN_BUDGET не оставляет места для истории после системного промпта и выжимки, история ограничивается только по количеству сообщений",
+      {
+        budget: this.getContextTokenBudget(),
+        summaryReserve: BOT_DEFAULTS.HISTORY.SUMMARY_MAX_TOKENS,
+      }
+    );
+  }
+
+  /**
+   * Возвращает последние сообщения истории, укладывающиеся в бюджет токенов
+   * Сообщения отбрасываются с самого старого конца. Последнее сообщение
+   * включается всегда, чтобы запрос не остался без вопроса пользователя
+   */
+  private getRelevantMessages(
+    messages: ChatMessage[],
+    tokenBudget: number
+  ): ChatMessage[] {
+    let remainingTokens = tokenBudget;
+    let startIndex = messages.length;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const messageTokens = estimateMessageTokens(messages[i]);
+      const isLatest = i === messages.length - 1;
+
+      if (messageTokens > remainingTokens && !isLatest) {
+        break;
+      }
+
+      remainingTokens -= messageTokens;
+      startIndex = i;
     }
 
-    // Берем последние N сообщений
-    return messages.slice(-BOT_DEFAULTS.HISTORY.RELEVANT_LENGTH);
+    return messages.slice(startIndex);
+  }
+
+  /**
+   * Возвращает бюджет токенов на историю после системных сообщений
+   */
+  private getHistoryTokenBudget(systemMessages: ChatMessage[]): number {
+    const usedTokens = systemMessages.reduce(
+      (sum, msg) => sum + estimateMessageTokens(msg),
+      0
+    );
+    return this.getContextTokenBudget() - usedTokens;
+  }
+
+  /**
+   * Возвращает бюджет токенов на промпт для бота
+   */
+  private getContextTokenBudget(): number {
+    return (
+      this.config.CONTEXT_TOKEN_BUDGET ||
+      BOT_DEFAULTS.HISTORY.DEFAULT_TOKEN_BUDGET
+    );
   }
 
   /**
@@ -385,9 +1006,7 @@ export class MessageHandlers {
 
     // Проверка на слишком длинный ответ
     if (response.length > BOT_DEFAULTS.MESSAGES.MAX_SAFE_LENGTH) {
-      console.warn(
-        `[${this.config.BOT_NAME}] Unusually long response (${response.length} chars)`
-      );
+      this.logger.warn(`Unusually long response (${response.length} chars)`);
       return (
         response.substring(0, 4000) +
         "\n\n[Ответ обрезан из-за слишком большой длины]"
@@ -409,9 +1028,52 @@ export class MessageHandlers {
 
   /**
    * Возвращает системный промпт
+   * В личных чатах к нему добавляется PRIVATE_CHAT.SYSTEM_PROMPT_ADDITION,
+   * а характер и язык берутся из настроек чата
    */
-  private getSystemPrompt(): string {
-    return this.config.SYSTEM_PROMPT;
+  private getSystemPrompt(ctx: Context): string {
+    const parts = [this.config.SYSTEM_PROMPT];
+
+    const addition = this.config.PRIVATE_CHAT?.SYSTEM_PROMPT_ADDITION;
+    if (addition && this.messageParser.isPrivateChat(ctx.chat)) {
+      parts.push(addition);
+    }
+
+    if (ctx.chat) {
+      const settings = this.chatSettings.get(ctx.chat.id);
+      if (settings.persona) {
+        parts.push(`Особенности характера в этом чате: ${settings.persona}`);
+      }
+      if (settings.language) {
+        parts.push(`Всегда отвечай на языке: ${settings.language}`);
+      }
+    }
+
+    return parts.join("\n\n");
+  }
+
+  /**
+   * Описывает тему поста для системного сообщения
+   * Контексты прежних версий хранят тему строкой без подробностей
+   */
+  private describePostTopic(postTopic: PostTopic | string): string {
+    if (typeof postTopic === "string") {
+      return `Текущая тема обсуждения: ${postTopic}`;
+    }
+
+    const parts = [`Текущая тема обсуждения: ${postTopic.topic}`];
+
+    if (Array.isArray(postTopic.keywords) && postTopic.keywords.length > 0) {
+      parts.push(`Ключевые слова: ${postTopic.keywords.join(", ")}`);
+    }
+    if (postTopic.tone) {
+      parts.push(`Тон поста: ${postTopic.tone}`);
+    }
+    if (postTopic.language) {
+      parts.push(`Язык поста: ${postTopic.language}`);
+    }
+
+    return parts.join(". ");
   }
 
   /**
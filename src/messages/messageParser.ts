@@ -1,3 +1,16 @@
+import { PhotoSize } from "telegraf/types";
+
+/**
+ * Голосовое, видеосообщение или аудиофайл, которые можно расшифровать
+ */
+export interface AudioAttachment {
+  fileId: string;
+  duration: number; // В секундах
+  fileSize?: number;
+  fileName: string;
+  mimeType: string;
+}
+
 /**
  * Класс для разбора и анализа сообщений Telegram
  * Отвечает за извлечение текста, проверку типов сообщений и работу с упоминаниями
@@ -24,6 +37,78 @@ export class MessageParser {
     return null;
   }
 
+  /**
+   * Объединяет подписи частей альбома
+   * Обычно подпись есть только у одной части, повторы пропускаются
+   * @param messages Части альбома
+   * @returns Текст поста или пустая строка, если подписей нет
+   */
+  public getMediaGroupText(messages: any[]): string {
+    const captions = messages
+      .map((message) => this.getMessageText(message)?.trim())
+      .filter((caption): caption is string => !!caption);
+
+    return Array.from(new Set(captions)).join("\n\n");
+  }
+
+  /**
+   * Возвращает самую крупную версию фотографии из сообщения
+   * @param message Объект сообщения Telegram
+   * @returns Описание фотографии или null, если фото в сообщении нет
+   */
+  public getLargestPhoto(message: any): PhotoSize | null {
+    if (!message || !Array.isArray(message.photo) || !message.photo.length) {
+      return null;
+    }
+
+    return message.photo.reduce((largest: PhotoSize, photo: PhotoSize) =>
+      photo.width * photo.height > largest.width * largest.height
+        ? photo
+        : largest
+    );
+  }
+
+  /**
+   * Возвращает голосовое, видеосообщение («кружок») или аудиофайл из сообщения
+   * @param message Объект сообщения Telegram
+   * @returns Описание файла или null, если аудио в сообщении нет
+   */
+  public getAudioAttachment(message: any): AudioAttachment | null {
+    if (!message) return null;
+
+    if (message.voice) {
+      return {
+        fileId: message.voice.file_id,
+        duration: message.voice.duration,
+        fileSize: message.voice.file_size,
+        fileName: "voice.ogg",
+        mimeType: message.voice.mime_type || "audio/ogg",
+      };
+    }
+
+    if (message.video_note) {
+      return {
+        fileId: message.video_note.file_id,
+        duration: message.video_note.duration,
+        fileSize: message.video_note.file_size,
+        fileName: "video_note.mp4",
+        mimeType: "video/mp4",
+      };
+    }
+
+    if (message.audio) {
+      return {
+        fileId: message.audio.file_id,
+        duration: message.audio.duration,
+        fileSize: message.audio.file_size,
+        fileName: message.audio.file_name || "audio.mp3",
+        mimeType: message.audio.mime_type || "audio/mpeg",
+      };
+    }
+
+    return null;
+  }
+
   /**
    * Проверяет, является ли сообщение ответом на сообщение бота
    * @param message Объект сообщения Telegram
@@ -79,6 +164,38 @@ export class MessageParser {
     return isForwardedChannel || isAutoAddedPost;
   }
 
+  /**
+   * Определяет пост канала, в ветке комментариев к которому написано сообщение
+   * @param message Объект сообщения Telegram
+   * @returns ID сообщения с постом в группе обсуждения или null
+   */
+  public getCommentThreadId(message: any): number | null {
+    if (!message) return null;
+
+    // Прямой ответ на пересланный в группу пост
+    const replyMessage = message.reply_to_message;
+    if (replyMessage && this.isChannelPost(replyMessage)) {
+      return replyMessage.message_id;
+    }
+
+    // Ответы внутри ветки ссылаются на пост через message_thread_id,
+    // а в форумах это ID темы, а не поста
+    if (message.message_thread_id && !message.is_topic_message) {
+      return message.message_thread_id;
+    }
+
+    return null;
+  }
+
+  /**
+   * Проверяет, является ли чат личной перепиской с ботом
+   * @param chat Объект чата Telegram
+   * @returns true, если тип чата private
+   */
+  public isPrivateChat(chat: any): boolean {
+    return !!chat && chat.type === "private";
+  }
+
   /**
    * Очищает текст от упоминания бота
    * @param text Исходный текст сообщения
@@ -121,6 +238,18 @@ export class MessageParser {
     return match ? match[1].toLowerCase() : null;
   }
 
+  /**
+   * Извлекает имя бота, которому адресована команда (/help@botname)
+   * @param text Текст сообщения
+   * @returns Имя бота без @ или null, если суффикса нет
+   */
+  public extractCommandTarget(text: string): string | null {
+    if (!this.isCommand(text)) return null;
+
+    const match = text.match(/^\/[a-zA-Z0-9_]+@([a-zA-Z0-9_]+)/);
+    return match ? match[1] : null;
+  }
+
   /**
    * Извлекает аргументы команды
    * @param text Текст сообщения с командой
@@ -129,8 +258,8 @@ export class MessageParser {
   public extractCommandArgs(text: string): string {
     if (!this.isCommand(text)) return "";
 
-    // Удаляем команду и возвращаем остальную часть сообщения
-    return text.replace(/^\/[a-zA-Z0-9_]+/, "").trim();
+    // Удаляем команду вместе с суффиксом @botname и возвращаем остальную часть сообщения
+    return text.replace(/^\/[a-zA-Z0-9_]+(@[a-zA-Z0-9_]+)?/, "").trim();
   }
 
   /**
@@ -1,15 +1,41 @@
 import { Context } from "telegraf";
 import { BOT_DEFAULTS } from "../constants";
+import { StreamingReply } from "./streamingReply";
+import { SendQueue } from "./sendQueue";
+import {
+  htmlToPlainText,
+  isParseEntitiesError,
+  markdownToTelegramHtml,
+  splitTelegramHtml,
+} from "./telegramHtml";
+import { BotMetrics } from "../metrics/botMetrics";
+import { Logger, logger } from "../logger/logger";
+
+/**
+ * Итог отправки сообщения, разбитого на части
+ */
+export interface SendResult {
+  deliveredParts: number;
+  undeliveredParts: string[]; // Части без разметки, которые так и не удалось доставить
+}
 
 /**
  * Класс для отправки сообщений в Telegram
- * Отвечает за форматирование, разбиение длинных сообщений и обработку ошибок при отправке
+ * Отвечает за форматирование, разбиение длинных сообщений и обработку ошибок при отправке.
+ * Markdown из ответов модели отправляется как HTML, а при ошибке разметки — простым текстом.
+ * Все отправки проходят через очередь чата с учетом лимитов Telegram
  */
 export class MessageSender {
   private botName: string;
+  private metrics: BotMetrics;
+  private logger: Logger;
+  private sendQueue: SendQueue;
 
-  constructor(botName: string) {
+  constructor(botName: string, metrics: BotMetrics) {
     this.botName = botName;
+    this.logger = logger.child({ botName });
+    this.metrics = metrics;
+    this.sendQueue = new SendQueue(botName, metrics);
   }
 
   /**
@@ -24,50 +50,66 @@ export class MessageSender {
 
       await ctx.telegram.sendChatAction(chatId, "typing");
     } catch (error) {
-      console.error(`[${this.botName}] Error sending typing indicator:`, error);
+      this.logger.warn("Error sending typing indicator", { error });
       // Игнорируем ошибки при отправке индикатора набора
     }
   }
 
   /**
-   * Отправляет сообщение, разбивая его на части, если оно слишком длинное
+   * Отправляет ответ модели с разметкой, разбивая его на части, если он слишком длинный
    * @param ctx Контекст Telegraf
-   * @param text Текст для отправки
+   * @param text Текст для отправки в Markdown
    * @param replyToMessageId ID сообщения, на которое нужно ответить (опционально)
-   * @returns Promise, который разрешается после отправки всех частей сообщения
+   * @returns Итог отправки с частями, которые не удалось доставить
+   * @throws Ошибку отправки, если не доставлена ни одна часть
    */
   public async sendSplitMessage(
     ctx: Context,
     text: string,
     replyToMessageId?: number
-  ): Promise<void> {
+  ): Promise<SendResult> {
     // Проверка на пустой ответ или только пробелы. Иногда deepseek возвращает пустые скобки
     if (!text || text.trim() === "" || text === "[]") {
-      console.warn(`[${this.botName}] Prevented sending empty message`);
-      return;
+      this.logger.warn("Prevented sending empty message");
+      return { deliveredParts: 0, undeliveredParts: [] };
     }
 
     // Проверка на сильно длинный ответ (возможно, ошибка)
     if (text.length > BOT_DEFAULTS.MESSAGES.MAX_SAFE_LENGTH * 5) {
-      console.warn(
-        `[${this.botName}] Extremely long message (${text.length} chars), truncating`
+      this.logger.warn(
+        `Extremely long message (${text.length} chars), truncating`
       );
       text =
         text.substring(0, BOT_DEFAULTS.MESSAGES.MAX_LENGTH) +
         "... [сообщение обрезано из-за аномальной длины]";
     }
 
-    // Если сообщение помещается целиком
-    if (text.length <= BOT_DEFAULTS.MESSAGES.MAX_LENGTH) {
-      await this.sendSingleMessage(ctx, text, replyToMessageId);
-      return;
-    }
+    // Разбиваем длинное сообщение на части, если оно не помещается целиком
+    const parts = this.splitMessageIntoParts(markdownToTelegramHtml(text));
 
-    // Разбиваем длинное сообщение на части
-    const parts = this.splitMessageIntoParts(text);
+    // Части отправляются одной задачей, чтобы между ними не вклинились другие сообщения
+    return this.sendQueue.run(this.getChatId(ctx), () =>
+      this.sendMessageParts(ctx, parts, replyToMessageId)
+    );
+  }
 
-    // Отправляем части с обработкой ошибок
-    await this.sendMessageParts(ctx, parts, replyToMessageId);
+  /**
+   * Создает потоковый ответ с постепенным редактированием сообщения
+   * @param ctx Контекст Telegraf
+   * @param replyToMessageId ID сообщения, на которое нужно ответить (опционально)
+   * @returns Объект потокового ответа
+   */
+  public createStreamingReply(
+    ctx: Context,
+    replyToMessageId?: number
+  ): StreamingReply {
+    return new StreamingReply(
+      ctx,
+      this.botName,
+      this.sendQueue,
+      this.metrics,
+      replyToMessageId
+    );
   }
 
   /**
@@ -84,42 +126,30 @@ export class MessageSender {
     replyToMessageId?: number,
     retries: number = 2
   ): Promise<void> {
-    let lastError;
+    await this.sendQueue.run(this.getChatId(ctx), async () => {
+      let lastError;
 
-    for (let i = 0; i <= retries; i++) {
-      try {
-        await ctx.reply(text, {
-          // @ts-ignore
-          reply_to_message_id: replyToMessageId,
-        });
-        return; // Успешная отправка
-      } catch (error) {
-        lastError = error;
+      for (let i = 0; i <= retries; i++) {
+        try {
+          await this.deliver(ctx, text, replyToMessageId);
+          return; // Успешная отправка
+        } catch (error) {
+          lastError = error;
 
-        // Если это последняя попытка с reply_to, пробуем без него
-        if (i === retries - 1 && replyToMessageId) {
-          try {
-            await ctx.reply(text);
-            return; // Успешная отправка без reply_to
-          } catch (err) {
-            // Продолжаем с последней попыткой и задержкой
-            lastError = err;
+          // Добавляем задержку перед повтором (кроме последней попытки)
+          if (i < retries) {
+            await this.delay(1000 * (i + 1));
           }
         }
-
-        // Добавляем задержку перед повтором (кроме последней попытки)
-        if (i < retries) {
-          await this.delay(1000 * (i + 1));
-        }
       }
-    }
 
-    // Если все попытки не удались
-    console.error(
-      `[${this.botName}] Failed to send message after ${retries} retries:`,
-      lastError
-    );
-    throw lastError;
+      // Если все попытки не удались
+      this.metrics.recordSendFailure("message");
+      this.logger.error(`Failed to send message after ${retries} retries`, {
+        error: lastError,
+      });
+      throw lastError;
+    });
   }
 
   /**
@@ -133,107 +163,75 @@ export class MessageSender {
     errorMessage: string,
     replyToMessageId?: number
   ): Promise<void> {
-    try {
-      await ctx.reply(errorMessage, {
-        // @ts-ignore
-        reply_to_message_id: replyToMessageId,
-      });
-    } catch (error) {
-      console.error(
-        `[${this.botName}] Error sending error message with reply:`,
-        error
-      );
-
-      // Пробуем отправить без reply
+    await this.sendQueue.run(this.getChatId(ctx), async () => {
       try {
-        await ctx.reply(errorMessage);
-      } catch (e) {
-        console.error(`[${this.botName}] Failed to send any error message:`, e);
+        await this.deliver(ctx, errorMessage, replyToMessageId);
+      } catch (error) {
+        this.metrics.recordSendFailure("error_message");
+        this.logger.error("Failed to send any error message", { error });
       }
-    }
+    });
   }
 
   /**
-   * Отправляет одиночное сообщение с обработкой ошибок
+   * Отправляет одно сообщение через очередь чата
+   * При ошибке разметки повторяет простым текстом, при других ошибках — без reply_to.
+   * Паузы по 429 retry_after выдерживает очередь
    * @param ctx Контекст Telegraf
    * @param text Текст для отправки
    * @param replyToMessageId ID сообщения, на которое нужно ответить (опционально)
+   * @param isHtml Отправлять ли текст с parse_mode HTML
    * @private
    */
-  private async sendSingleMessage(
+  private async deliver(
     ctx: Context,
     text: string,
-    replyToMessageId?: number
+    replyToMessageId?: number,
+    isHtml: boolean = false
   ): Promise<void> {
+    const chatId = this.getChatId(ctx);
+    const isGroup = ctx.chat?.type !== "private";
+
     try {
-      await ctx.reply(text, {
-        // @ts-ignore
-        reply_to_message_id: replyToMessageId,
-      });
+      await this.sendQueue.send(chatId, isGroup, () =>
+        ctx.reply(text, {
+          // @ts-ignore
+          reply_to_message_id: replyToMessageId,
+          parse_mode: isHtml ? "HTML" : undefined,
+        })
+      );
     } catch (error) {
-      console.error(`[${this.botName}] Error sending message:`, error);
-
-      // Пробуем отправить без reply_to в случае ошибки
-      try {
-        await ctx.reply(text);
-      } catch (err) {
-        console.error(
-          `[${this.botName}] Failed to send message even without reply_to:`,
-          err
-        );
-        throw err; // Пробрасываем ошибку для обработки выше
+      if (isHtml && isParseEntitiesError(error)) {
+        this.logger.warn("Telegram rejected markup, sending as plain text", {
+          error,
+        });
+        await this.deliver(ctx, htmlToPlainText(text), replyToMessageId);
+        return;
       }
+
+      if (!replyToMessageId) throw error;
+
+      // Исходное сообщение могло быть удалено, пробуем отправить без reply_to
+      this.logger.warn("Error sending message, trying without reply_to", {
+        error,
+      });
+      await this.deliver(ctx, text, undefined, isHtml);
     }
   }
 
   /**
-   * Разбивает длинное сообщение на части с умным разделением по предложениям
-   * @param text Текст для разбиения
+   * Разбивает HTML на части с умным разделением по предложениям
+   * Теги не разрываются, а форматирование переносится через границы частей
+   * @param html Текст для разбиения
    * @returns Массив строк - частей сообщения
    * @private
    */
-  private splitMessageIntoParts(text: string): string[] {
-    const parts: string[] = [];
-    let currentPart = "";
-
-    // Разбиваем текст на предложения
-    const sentences = text.split(/(?<=\.|\?|\!|\n)\s+/);
-
-    for (const sentence of sentences) {
-      // Если добавление предложения превысит лимит
-      if (
-        currentPart.length + sentence.length >
-        BOT_DEFAULTS.MESSAGES.MAX_LENGTH - 30
-      ) {
-        if (currentPart.length > 0) {
-          parts.push(currentPart.trim());
-          currentPart = "";
-        }
-
-        // Если предложение само по себе слишком длинное
-        if (sentence.length > BOT_DEFAULTS.MESSAGES.MAX_LENGTH) {
-          let remainingSentence = sentence;
-          while (remainingSentence.length > 0) {
-            const chunk = remainingSentence.substring(
-              0,
-              BOT_DEFAULTS.MESSAGES.MAX_LENGTH - 30
-            );
-            parts.push(chunk + "...");
-            remainingSentence =
-              "..." + remainingSentence.substring(chunk.length);
-          }
-        } else {
-          currentPart = sentence;
-        }
-      } else {
-        currentPart += (currentPart.length > 0 ? " " : "") + sentence;
-      }
-    }
-
-    // Добавляем последнюю часть, если что-то осталось
-    if (currentPart.length > 0) {
-      parts.push(currentPart.trim());
-    }
+  private splitMessageIntoParts(html: string): string[] {
+    // Запас длины оставляем под номер части
+    const parts = splitTelegramHtml(
+      html,
+      BOT_DEFAULTS.MESSAGES.MAX_LENGTH - 30
+    );
 
     // Добавляем номера частей, если их больше одной
     if (parts.length > 1) {
@@ -246,50 +244,56 @@ export class MessageSender {
   }
 
   /**
-   * Отправляет части сообщения последовательно
+   * Отправляет HTML-части сообщения последовательно
+   * Недоставленная часть не останавливает отправку следующих
    * @param ctx Контекст Telegraf
    * @param parts Массив частей сообщения
    * @param replyToMessageId ID сообщения, на которое нужно ответить (опционально)
+   * @returns Итог отправки
+   * @throws Ошибку последней части, если не доставлена ни одна часть
    * @private
    */
   private async sendMessageParts(
     ctx: Context,
     parts: string[],
     replyToMessageId?: number
-  ): Promise<void> {
+  ): Promise<SendResult> {
+    const undeliveredParts: string[] = [];
+    let lastError;
+
     for (let i = 0; i < parts.length; i++) {
       try {
         const isFirstPart = i === 0;
-        await ctx.reply(parts[i], {
-          // @ts-ignore
-          reply_to_message_id: isFirstPart ? replyToMessageId : undefined,
-        });
-
-        // Небольшая задержка между сообщениями
-        if (i < parts.length - 1) {
-          await this.delay(500);
-        }
+        await this.deliver(
+          ctx,
+          parts[i],
+          isFirstPart ? replyToMessageId : undefined,
+          true
+        );
       } catch (error) {
-        console.error(
-          `[${this.botName}] Error sending message part ${i + 1}:`,
-          error
+        lastError = error;
+        undeliveredParts.push(htmlToPlainText(parts[i]));
+        this.metrics.recordSendFailure(
+          parts.length > 1 ? "message_part" : "message"
         );
-
-        // Пробуем отправить без reply_to
-        try {
-          await ctx.reply(parts[i]);
-        } catch (err) {
-          console.error(
-            `[${this.botName}] Failed to send part ${
-              i + 1
-            } even without reply_to:`,
-            err
-          );
-
-          // Продолжаем с другими частями даже при ошибке
-        }
+        this.logger.error(`Failed to send part ${i + 1}/${parts.length}`, {
+          error,
+        });
       }
     }
+
+    if (undeliveredParts.length === parts.length) {
+      throw lastError;
+    }
+
+    return {
+      deliveredParts: parts.length - undeliveredParts.length,
+      undeliveredParts,
+    };
+  }
+
+  private getChatId(ctx: Context): number | string {
+    return ctx.chat?.id ?? "unknown";
   }
 
   /**
@@ -0,0 +1,209 @@
+import { TelegramError } from "telegraf";
+import { BOT_DEFAULTS } from "../constants";
+import { BotMetrics } from "../metrics/botMetrics";
+import { Logger, logger } from "../logger/logger";
+
+type ChatId = number | string;
+
+/**
+ * Скользящее окно отправок: не больше limit отправок за windowMs
+ */
+interface RateWindow {
+  limit: number;
+  windowMs: number;
+  sentAt: number[];
+}
+
+/**
+ * Класс исходящей очереди сообщений бота в Telegram
+ * Задачи одного чата выполняются строго по очереди, чтобы части ответа
+ * не перемешивались с другими сообщениями. Каждая отправка ждет, пока
+ * позволяют лимиты чата и бота, а при 429 чат ставится на паузу
+ * на время retry_after и отправка повторяется
+ */
+export class SendQueue {
+  private metrics: BotMetrics;
+  private logger: Logger;
+  private globalWindow: RateWindow;
+  private chatWindows: Map<ChatId, RateWindow> = new Map();
+  private chatPausedUntil: Map<ChatId, number> = new Map();
+  // Последняя задача каждого чата; следующая начинается после нее
+  private chatTails: Map<ChatId, Promise<void>> = new Map();
+
+  constructor(botName: string, metrics: BotMetrics) {
+    this.metrics = metrics;
+    this.logger = logger.child({ botName });
+    this.globalWindow = {
+      limit: BOT_DEFAULTS.TELEGRAM.GLOBAL_MESSAGES_PER_SECOND,
+      windowMs: 1000,
+      sentAt: [],
+    };
+  }
+
+  /**
+   * Выполняет задачу после всех задач, ранее поставленных в тот же чат
+   * @param chatId ID чата
+   * @param task Задача, отправляющая одно или несколько сообщений
+   * @returns Результат задачи
+   */
+  public run<T>(chatId: ChatId, task: () => Promise<T>): Promise<T> {
+    this.pruneIdleChats();
+
+    const previous = this.chatTails.get(chatId) || Promise.resolve();
+    const result = previous.then(task);
+
+    // Ошибка задачи не должна останавливать очередь чата
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.chatTails.set(chatId, tail);
+    tail.then(() => {
+      if (this.chatTails.get(chatId) === tail) this.chatTails.delete(chatId);
+    });
+
+    return result;
+  }
+
+  /**
+   * Выполняет один запрос к Telegram с учетом лимитов и retry_after
+   * @param chatId ID чата
+   * @param isGroup Групповой ли чат (у групп более строгий лимит)
+   * @param request Запрос к Telegram
+   * @returns Результат запроса
+   * @throws Ошибку запроса, если она не связана с лимитами или повторы исчерпаны
+   */
+  public async send<T>(
+    chatId: ChatId,
+    isGroup: boolean,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const maxRetries = BOT_DEFAULTS.TELEGRAM.SEND_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(chatId, isGroup);
+
+      try {
+        return await request();
+      } catch (error) {
+        const retryAfterMs = this.getRetryAfterMs(error);
+        if (
+          retryAfterMs === null ||
+          attempt >= maxRetries ||
+          retryAfterMs > BOT_DEFAULTS.TELEGRAM.MAX_RETRY_AFTER_MS
+        ) {
+          throw error;
+        }
+
+        this.metrics.recordTelegramFloodWait();
+        this.logger.warn("Telegram flood control, pausing chat", {
+          chatId,
+          retryAfterMs,
+        });
+        this.chatPausedUntil.set(chatId, Date.now() + retryAfterMs);
+      }
+    }
+  }
+
+  /**
+   * Ждет, пока отправка в чат не нарушит паузу и лимиты, и занимает слот
+   * @param chatId ID чата
+   * @param isGroup Групповой ли чат
+   * @private
+   */
+  private async waitForSlot(chatId: ChatId, isGroup: boolean): Promise<void> {
+    const chatWindow = this.getChatWindow(chatId, isGroup);
+
+    while (true) {
+      const now = Date.now();
+      const wait = Math.max(
+        (this.chatPausedUntil.get(chatId) || 0) - now,
+        this.getWindowWait(chatWindow, now),
+        this.getWindowWait(this.globalWindow, now)
+      );
+
+      if (wait <= 0) {
+        this.chatPausedUntil.delete(chatId);
+        chatWindow.sentAt.push(now);
+        this.globalWindow.sentAt.push(now);
+        return;
+      }
+
+      await this.delay(wait);
+    }
+  }
+
+  /**
+   * Рассчитывает ожидание до освобождения места в окне
+   * @param window Окно отправок
+   * @param now Текущее время
+   * @returns Миллисекунды ожидания (0, если место есть)
+   * @private
+   */
+  private getWindowWait(window: RateWindow, now: number): number {
+    while (
+      window.sentAt.length > 0 &&
+      window.sentAt[0] <= now - window.windowMs
+    ) {
+      window.sentAt.shift();
+    }
+
+    if (window.sentAt.length < window.limit) return 0;
+    return window.sentAt[0] + window.windowMs - now;
+  }
+
+  private getChatWindow(chatId: ChatId, isGroup: boolean): RateWindow {
+    let window = this.chatWindows.get(chatId);
+    if (!window) {
+      window = isGroup
+        ? {
+            limit: BOT_DEFAULTS.TELEGRAM.GROUP_MESSAGES_PER_MINUTE,
+            windowMs: 60 * 1000,
+            sentAt: [],
+          }
+        : {
+            limit: 1,
+            windowMs: BOT_DEFAULTS.TELEGRAM.PRIVATE_CHAT_INTERVAL_MS,
+            sentAt: [],
+          };
+      this.chatWindows.set(chatId, window);
+    }
+    return window;
+  }
+
+  /**
+   * Удаляет состояние чатов без задач, чьи окна отправок и пауза уже истекли
+   * @private
+   */
+  private pruneIdleChats(): void {
+    const now = Date.now();
+
+    for (const [chatId, window] of this.chatWindows) {
+      if (this.chatTails.has(chatId)) continue;
+      // getWindowWait заодно удаляет из окна истекшие отправки
+      this.getWindowWait(window, now);
+      if (window.sentAt.length > 0) continue;
+      if ((this.chatPausedUntil.get(chatId) || 0) > now) continue;
+
+      this.chatWindows.delete(chatId);
+      this.chatPausedUntil.delete(chatId);
+    }
+  }
+
+  /**
+   * Извлекает retry_after из ответа Telegram с кодом 429
+   * @param error Ошибка запроса
+   * @returns Пауза в мс или null, если ошибка не связана с лимитами
+   * @private
+   */
+  private getRetryAfterMs(error: unknown): number | null {
+    if (!(error instanceof TelegramError) || error.code !== 429) return null;
+
+    const retryAfter = error.parameters?.retry_after;
+    return typeof retryAfter === "number" ? retryAfter * 1000 : 1000;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
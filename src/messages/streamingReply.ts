@@ -0,0 +1,354 @@
+import { Context } from "telegraf";
+import { BOT_DEFAULTS } from "../constants";
+import { SendQueue } from "./sendQueue";
+import {
+  htmlToPlainText,
+  isParseEntitiesError,
+  markdownToTelegramHtml,
+  splitTelegramHtml,
+} from "./telegramHtml";
+import { BotMetrics } from "../metrics/botMetrics";
+import { Logger, logger } from "../logger/logger";
+
+interface SentPart {
+  messageId: number;
+  text: string; // HTML, показанный в сообщении
+}
+
+/**
+ * Класс для постепенного вывода потокового ответа в Telegram
+ * Отправляет сообщение-заглушку и редактирует его по мере поступления текста,
+ * переходя к новому сообщению при превышении лимита длины.
+ * Markdown из ответа выводится как HTML, а при ошибке разметки — простым текстом.
+ * Поток занимает очередь чата от заглушки до итогового текста, а каждая
+ * отправка, правка и удаление проходит через лимиты очереди
+ */
+export class StreamingReply {
+  private ctx: Context;
+  private sendQueue: SendQueue;
+  private metrics: BotMetrics;
+  private logger: Logger;
+  private replyToMessageId?: number;
+
+  private text: string = "";
+  private sentParts: SentPart[] = [];
+  private lastRenderAt: number = 0;
+  private renderTimer: NodeJS.Timeout | null = null;
+  private renderQueue: Promise<void> = Promise.resolve();
+  private closed: boolean = false;
+  // Разрешается в finish или abort и освобождает очередь чата
+  private completed: Promise<void>;
+  private complete: () => void = () => {};
+
+  constructor(
+    ctx: Context,
+    botName: string,
+    sendQueue: SendQueue,
+    metrics: BotMetrics,
+    replyToMessageId?: number
+  ) {
+    this.ctx = ctx;
+    this.sendQueue = sendQueue;
+    this.metrics = metrics;
+    this.logger = logger.child({ botName });
+    this.replyToMessageId = replyToMessageId;
+    this.completed = new Promise((resolve) => {
+      this.complete = resolve;
+    });
+  }
+
+  /**
+   * Дожидается очереди чата и отправляет сообщение-заглушку,
+   * которое затем будет редактироваться
+   * @returns Promise, который разрешается после отправки заглушки
+   */
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.sendQueue.run(this.ctx.chat!.id, async () => {
+        try {
+          const placeholder = BOT_DEFAULTS.MESSAGES.STREAM_PLACEHOLDER;
+          const messageId = await this.sendNewMessage(
+            placeholder,
+            this.replyToMessageId
+          );
+          this.sentParts.push({ messageId, text: placeholder });
+          this.lastRenderAt = Date.now();
+          resolve();
+        } catch (error) {
+          reject(error);
+          return;
+        }
+
+        // Другие сообщения в чат уходят только после завершения потока
+        await this.completed;
+      });
+    });
+  }
+
+  /**
+   * Добавляет фрагмент текста и планирует обновление сообщения
+   * @param delta Новый фрагмент текста
+   */
+  public append(delta: string): void {
+    if (this.closed) return;
+
+    this.text += delta;
+    this.scheduleRender();
+  }
+
+  /**
+   * Завершает вывод и показывает итоговый текст
+   * @param finalText Итоговый текст (по умолчанию накопленный)
+   * @returns Promise, который разрешается после последнего обновления
+   */
+  public async finish(finalText?: string): Promise<void> {
+    this.closed = true;
+    this.cancelScheduledRender();
+
+    const text = finalText !== undefined ? finalText : this.text;
+    try {
+      await this.enqueueRender(text, true);
+    } finally {
+      this.complete();
+    }
+  }
+
+  /**
+   * Прерывает вывод после ошибки
+   * Если текст еще не поступал, заглушка удаляется, иначе показывается полученная часть
+   * @returns Promise, который разрешается после очистки
+   */
+  public async abort(): Promise<void> {
+    this.closed = true;
+    this.cancelScheduledRender();
+
+    try {
+      await this.renderQueue;
+
+      if (this.text.trim()) {
+        await this.enqueueRender(this.text, true);
+        return;
+      }
+
+      await this.deleteParts(0);
+    } finally {
+      this.complete();
+    }
+  }
+
+  /**
+   * Планирует обновление сообщения не чаще заданного интервала
+   * @private
+   */
+  private scheduleRender(): void {
+    if (this.renderTimer) return;
+
+    const elapsed = Date.now() - this.lastRenderAt;
+    const wait = Math.max(
+      0,
+      BOT_DEFAULTS.MESSAGES.STREAM_EDIT_INTERVAL_MS - elapsed
+    );
+
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = null;
+      this.enqueueRender(this.text, false);
+    }, wait);
+  }
+
+  /**
+   * Отменяет запланированное обновление
+   * @private
+   */
+  private cancelScheduledRender(): void {
+    if (this.renderTimer) {
+      clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+  }
+
+  /**
+   * Ставит обновление в очередь, чтобы правки не выполнялись параллельно
+   * @param text Текст для отображения
+   * @param isFinal Последнее ли это обновление
+   * @private
+   */
+  private enqueueRender(text: string, isFinal: boolean): Promise<void> {
+    this.renderQueue = this.renderQueue
+      .then(() => this.render(text, isFinal))
+      .catch((error) => {
+        this.logger.error("Error rendering stream", { error });
+      });
+    return this.renderQueue;
+  }
+
+  /**
+   * Приводит отправленные сообщения в соответствие с текстом
+   * @param text Текст для отображения
+   * @param isFinal Последнее ли это обновление
+   * @private
+   */
+  private async render(text: string, isFinal: boolean): Promise<void> {
+    this.lastRenderAt = Date.now();
+
+    // Части не разрывают теги и блоки кода
+    const chunks = splitTelegramHtml(
+      markdownToTelegramHtml(text.trim()),
+      BOT_DEFAULTS.MESSAGES.MAX_LENGTH
+    );
+    if (chunks.length === 0) {
+      // Пока нет текста, оставляем заглушку
+      if (!isFinal) return;
+      chunks.push(BOT_DEFAULTS.MESSAGES.STREAM_PLACEHOLDER);
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const part = this.sentParts[i];
+
+      if (!part) {
+        const messageId = await this.sendNewMessage(chunk);
+        this.sentParts.push({ messageId, text: chunk });
+        continue;
+      }
+
+      if (part.text === chunk) continue;
+
+      try {
+        await this.withPlainTextFallback(chunk, (text, parseMode) =>
+          this.send(() =>
+            this.ctx.telegram.editMessageText(
+              this.ctx.chat!.id,
+              part.messageId,
+              undefined,
+              text,
+              { parse_mode: parseMode }
+            )
+          )
+        );
+        part.text = chunk;
+      } catch (error) {
+        if (this.isNotModifiedError(error)) {
+          part.text = chunk;
+          continue;
+        }
+
+        this.logger.error(`Error editing streamed message part ${i + 1}`, {
+          error,
+        });
+
+        // Итоговый текст не должен потеряться, отправляем его новым сообщением
+        if (isFinal) {
+          const messageId = await this.sendNewMessage(chunk);
+          this.sentParts[i] = { messageId, text: chunk };
+        }
+      }
+    }
+
+    // Итоговый текст мог оказаться короче показанного
+    if (isFinal) {
+      await this.deleteParts(chunks.length);
+    }
+  }
+
+  /**
+   * Удаляет отправленные части, начиная с указанной
+   * @param fromIndex Индекс первой удаляемой части
+   * @private
+   */
+  private async deleteParts(fromIndex: number): Promise<void> {
+    const extraParts = this.sentParts.splice(fromIndex);
+
+    for (const part of extraParts) {
+      try {
+        await this.send(() =>
+          this.ctx.telegram.deleteMessage(this.ctx.chat!.id, part.messageId)
+        );
+      } catch (error) {
+        this.logger.error("Error deleting streamed message", { error });
+      }
+    }
+  }
+
+  /**
+   * Отправляет новое сообщение, при ошибке повторяет без reply_to
+   * @param html Текст сообщения в HTML
+   * @param replyToMessageId ID сообщения, на которое нужно ответить (опционально)
+   * @returns ID отправленного сообщения
+   * @private
+   */
+  private async sendNewMessage(
+    html: string,
+    replyToMessageId?: number
+  ): Promise<number> {
+    try {
+      const sent = await this.withPlainTextFallback(html, (text, parseMode) =>
+        this.send(() =>
+          this.ctx.reply(text, {
+            // @ts-ignore
+            reply_to_message_id: replyToMessageId,
+            parse_mode: parseMode,
+          })
+        )
+      );
+      return sent.message_id;
+    } catch (error) {
+      if (!replyToMessageId) {
+        this.metrics.recordSendFailure("stream_message");
+        throw error;
+      }
+
+      this.logger.warn(
+        "Error sending streamed message, trying without reply_to",
+        { error }
+      );
+      return this.sendNewMessage(html);
+    }
+  }
+
+  /**
+   * Выполняет запрос с HTML, а если Telegram отклонил разметку — с простым текстом
+   * @param html Текст в HTML
+   * @param request Запрос к Telegram с текстом и режимом разметки
+   * @returns Результат запроса
+   * @private
+   */
+  private async withPlainTextFallback<T>(
+    html: string,
+    request: (text: string, parseMode?: "HTML") => Promise<T>
+  ): Promise<T> {
+    try {
+      return await request(html, "HTML");
+    } catch (error) {
+      if (!isParseEntitiesError(error)) throw error;
+
+      this.logger.warn("Telegram rejected markup, sending as plain text", {
+        error,
+      });
+      return request(htmlToPlainText(html));
+    }
+  }
+
+  /**
+   * Выполняет запрос к Telegram с учетом лимитов чата и retry_after
+   * @param request Запрос к Telegram
+   * @returns Результат запроса
+   * @private
+   */
+  private send<T>(request: () => Promise<T>): Promise<T> {
+    const isGroup = this.ctx.chat?.type !== "private";
+    return this.sendQueue.send(this.ctx.chat!.id, isGroup, request);
+  }
+
+  /**
+   * Проверяет, что Telegram отклонил правку из-за неизмененного текста
+   * @param error Объект ошибки
+   * @returns true, если текст сообщения уже совпадает
+   * @private
+   */
+  private isNotModifiedError(error: any): boolean {
+    return (
+      typeof error?.description === "string" &&
+      error.description.includes("message is not modified")
+    );
+  }
+}
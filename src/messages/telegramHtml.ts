@@ -0,0 +1,229 @@
+import { TelegramError } from "telegraf";
+
+// Метка на месте вырезанного кода и ссылок, чтобы разметка внутри них не обрабатывалась
+const PLACEHOLDER = "\u0000";
+
+interface OpenTag {
+  name: string;
+  tag: string; // Открывающий тег целиком, с атрибутами
+}
+
+/**
+ * Экранирует текст для parse_mode HTML
+ * @param text Исходный текст
+ * @returns Текст, безопасный для вставки в HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Преобразует Markdown из ответа модели в HTML, который понимает Telegram
+ * Поддерживаются блоки и строки кода, жирный, курсив, зачеркнутый текст,
+ * ссылки и заголовки (как жирный текст). Остальной текст экранируется
+ * @param markdown Текст в Markdown
+ * @returns Текст для отправки с parse_mode HTML
+ */
+export function markdownToTelegramHtml(markdown: string): string {
+  const protectedHtml: string[] = [];
+  const protect = (html: string): string => {
+    protectedHtml.push(html);
+    return `${PLACEHOLDER}${protectedHtml.length - 1}${PLACEHOLDER}`;
+  };
+
+  let text = markdown.replace(new RegExp(PLACEHOLDER, "g"), "");
+
+  // Блоки кода; незакрытый блок (ответ оборвался) продолжается до конца текста
+  text = text.replace(
+    /```([\w+#-]*)[^\S\n]*\n?([\s\S]*?)(?:```|$)/g,
+    (_, language: string, code: string) => {
+      const languageClass = language
+        ? ` class="language-${escapeHtml(language)}"`
+        : "";
+      return protect(
+        `<pre><code${languageClass}>${escapeHtml(
+          code.replace(/\n$/, "")
+        )}</code></pre>`
+      );
+    }
+  );
+  text = text.replace(/`([^`\n]+)`/g, (_, code: string) =>
+    protect(`<code>${escapeHtml(code)}</code>`)
+  );
+  text = text.replace(
+    /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g,
+    (_, label: string, url: string) =>
+      protect(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`)
+  );
+
+  text = escapeHtml(text);
+
+  text = text
+    // Заголовки и маркеры списков
+    .replace(/^#{1,6}[^\S\n]+(.+?)[^\S\n]*#*$/gm, "<b>$1</b>")
+    .replace(/^([^\S\n]*)\*[^\S\n]+/gm, "$1• ")
+    // Жирный, зачеркнутый, курсив
+    .replace(/\*\*(?=\S)([^\n]*?\S)\*\*/g, "<b>$1</b>")
+    .replace(/(^|[^\w])__(?=\S)([^\n]*?\S)__(?!\w)/g, "$1<b>$2</b>")
+    .replace(/~~(?=\S)([^\n]*?\S)~~/g, "<s>$1</s>")
+    .replace(
+      /(^|[^\w*])\*(?=[^\s*])([^*\n]*?[^\s*])\*(?![\w*])/g,
+      "$1<i>$2</i>"
+    )
+    .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1<i>$2</i>");
+
+  return text.replace(
+    new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, "g"),
+    (_, index: string) => protectedHtml[Number(index)]
+  );
+}
+
+/**
+ * Разбивает HTML на части не длиннее maxLength
+ * Теги и HTML-сущности не разрываются. Разрыв выполняется по концу
+ * предложения или строки, а если не получается — по пробелу.
+ * Открытое на границе форматирование закрывается в конце части
+ * и открывается заново в начале следующей
+ * @param html Текст в HTML
+ * @param maxLength Максимальная длина части с учетом тегов
+ * @returns Массив частей
+ */
+export function splitTelegramHtml(html: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  const openTags: OpenTag[] = [];
+  let current = "";
+  let hasContent = false;
+
+  const closingTags = (): string =>
+    openTags
+      .slice()
+      .reverse()
+      .map(({ name }) => `</${name}>`)
+      .join("");
+
+  const flush = (): void => {
+    if (hasContent) parts.push(removeEmptyTags(current + closingTags()));
+    current = openTags.map(({ tag }) => tag).join("");
+    hasContent = false;
+  };
+
+  const fits = (extra: number): boolean =>
+    current.length + extra + closingTags().length <= maxLength;
+
+  const appendText = (text: string): void => {
+    if (!fits(text.length) && hasContent) flush();
+    if (fits(text.length)) {
+      current += text;
+      hasContent = true;
+      return;
+    }
+
+    // Кусок не помещается даже в пустую часть: режем по пробелам или жестко
+    for (const word of text.split(/(?<=\s)/)) {
+      if (!fits(word.length) && hasContent) flush();
+
+      let rest = word;
+      while (!fits(rest.length)) {
+        const room = Math.max(
+          1,
+          maxLength - current.length - closingTags().length
+        );
+        current += rest.substring(0, room);
+        hasContent = true;
+        rest = rest.substring(room);
+        flush();
+      }
+      if (rest) {
+        current += rest;
+        hasContent = true;
+      }
+    }
+  };
+
+  for (const token of tokenizeHtml(html)) {
+    const tagMatch = token.match(/^<(\/?)([a-z]+)/i);
+
+    if (!tagMatch) {
+      // HTML-сущность переносится целиком
+      if (token.startsWith("&")) {
+        if (!fits(token.length) && hasContent) flush();
+        current += token;
+        hasContent = true;
+        continue;
+      }
+
+      for (const piece of splitIntoSentences(token)) {
+        appendText(piece);
+      }
+      continue;
+    }
+
+    const [, closing, name] = tagMatch;
+    if (closing) {
+      const index = openTags.map((tag) => tag.name).lastIndexOf(name);
+      if (index !== -1) openTags.splice(index, 1);
+      current += token;
+      continue;
+    }
+
+    // Открывающий тег вместе с будущим закрывающим должен поместиться в часть
+    if (!fits(token.length + name.length + 3) && hasContent) flush();
+    openTags.push({ name, tag: token });
+    current += token;
+  }
+
+  if (hasContent) parts.push(removeEmptyTags(current + closingTags()));
+  return parts;
+}
+
+/**
+ * Убирает HTML-разметку для отправки простым текстом
+ * @param html Текст в HTML
+ * @returns Простой текст; у ссылок адрес сохраняется в скобках
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/g, "$2 ($1)")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Проверяет, отклонил ли Telegram сообщение из-за ошибки разметки
+ * @param error Ошибка отправки
+ * @returns true, если сообщение стоит отправить простым текстом
+ */
+export function isParseEntitiesError(error: unknown): boolean {
+  return (
+    error instanceof TelegramError &&
+    error.code === 400 &&
+    /can't parse entities/i.test(error.description)
+  );
+}
+
+function tokenizeHtml(html: string): string[] {
+  return html.match(/<[^>]*>|&[#a-zA-Z0-9]+;|[^<&]+|[<&]/g) || [];
+}
+
+// Тег, открытый перед самой границей части, остается пустым
+function removeEmptyTags(html: string): string {
+  let result = html;
+  let previous;
+  do {
+    previous = result;
+    result = result.replace(/<([a-z]+)[^>]*><\/\1>/gi, "");
+  } while (result !== previous);
+  return result;
+}
+
+// Делит текст после концов предложений и переводов строк, сохраняя пробелы
+function splitIntoSentences(text: string): string[] {
+  return text.split(/(?<=[.!?]\s+|\n)(?=\S|\n)/);
+}
@@ -0,0 +1,114 @@
+import axios from "axios";
+import { Context } from "telegraf";
+import { BOT_DEFAULTS } from "../constants";
+import { BotConfig } from "../types";
+import { AudioAttachment, MessageParser } from "./messageParser";
+
+/**
+ * Класс расшифровки голосовых сообщений, «кружков» и аудиофайлов
+ * Файл скачивается из Telegram и отправляется на OpenAI-совместимый
+ * эндпоинт /audio/transcriptions, адрес которого задан в конфигурации
+ */
+export class VoiceTranscriber {
+  private config: BotConfig;
+  private messageParser: MessageParser;
+
+  constructor(config: BotConfig, messageParser: MessageParser) {
+    this.config = config;
+    this.messageParser = messageParser;
+  }
+
+  /**
+   * Проверяет, настроена ли расшифровка
+   * @returns true, если задан эндпоинт расшифровки
+   */
+  public isEnabled(): boolean {
+    return !!this.config.TRANSCRIPTION?.BASE_URL;
+  }
+
+  /**
+   * Проверяет, есть ли в сообщении аудио, которое можно расшифровать
+   * @param message Объект сообщения Telegram
+   * @returns true, если расшифровка настроена и в сообщении есть аудио
+   */
+  public hasAudio(message: any): boolean {
+    return this.isEnabled() && !!this.messageParser.getAudioAttachment(message);
+  }
+
+  /**
+   * Проверяет, не превышает ли аудио допустимую длительность и размер
+   * @param audio Аудио из сообщения
+   * @returns true, если аудио слишком длинное или большое для расшифровки
+   */
+  public isTooLong(audio: AudioAttachment): boolean {
+    const maxDuration =
+      this.config.TRANSCRIPTION?.MAX_DURATION_SEC ||
+      BOT_DEFAULTS.TRANSCRIPTION.MAX_DURATION_SEC;
+    return (
+      audio.duration > maxDuration ||
+      (audio.fileSize || 0) > BOT_DEFAULTS.TRANSCRIPTION.MAX_FILE_BYTES
+    );
+  }
+
+  /**
+   * Проверяет, нужно ли показывать расшифровку перед ответом
+   * @returns true, если включен ECHO_TRANSCRIPT
+   */
+  public shouldEchoTranscript(): boolean {
+    return this.config.TRANSCRIPTION?.ECHO_TRANSCRIPT === true;
+  }
+
+  /**
+   * Скачивает аудио и расшифровывает его
+   * @param ctx Контекст Telegraf
+   * @param audio Аудио из сообщения
+   * @returns Текст расшифровки (может быть пустым, если речи нет)
+   * @throws Ошибку скачивания или запроса к эндпоинту расшифровки
+   */
+  public async transcribe(
+    ctx: Context,
+    audio: AudioAttachment
+  ): Promise<string> {
+    const transcription = this.config.TRANSCRIPTION;
+    if (!transcription?.BASE_URL) {
+      throw new Error("Расшифровка голосовых не настроена");
+    }
+
+    const fileLink = await ctx.telegram.getFileLink(audio.fileId);
+    const file = await axios.get<ArrayBuffer>(fileLink.href, {
+      responseType: "arraybuffer",
+      timeout: BOT_DEFAULTS.TRANSCRIPTION.TIMEOUT_MS,
+      maxContentLength: BOT_DEFAULTS.TRANSCRIPTION.MAX_FILE_BYTES,
+    });
+
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([file.data], { type: audio.mimeType }),
+      audio.fileName
+    );
+    form.append(
+      "model",
+      transcription.MODEL || BOT_DEFAULTS.TRANSCRIPTION.DEFAULT_MODEL
+    );
+    form.append("response_format", "json");
+    if (transcription.LANGUAGE) {
+      form.append("language", transcription.LANGUAGE);
+    }
+
+    // Локальные серверы обычно не требуют ключа
+    const headers: Record<string, string> = {};
+    if (transcription.API_KEY) {
+      headers.Authorization = `Bearer ${transcription.API_KEY}`;
+    }
+
+    const baseUrl = transcription.BASE_URL.replace(/\/+$/, "");
+    const response = await axios.post(`${baseUrl}/audio/transcriptions`, form, {
+      headers,
+      timeout: BOT_DEFAULTS.TRANSCRIPTION.TIMEOUT_MS,
+    });
+
+    const text = response.data?.text;
+    return typeof text === "string" ? text.trim() : "";
+  }
+}
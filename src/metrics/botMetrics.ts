@@ -0,0 +1,165 @@
+import { BOT_DEFAULTS } from "../constants";
+import {
+  GenerationPurpose,
+  MessageTrigger,
+  MetricFamilySnapshot,
+  TokenUsage,
+} from "../types";
+import { LlmErrorType } from "../api/providers/llmProvider";
+import { RequestDropReason } from "../api/requestScheduler";
+import { Counter, Histogram, MetricsRegistry } from "./metricsRegistry";
+
+export type SendOperation =
+  | "message"
+  | "message_part"
+  | "error_message"
+  | "stream_message";
+
+/**
+ * Класс метрик бота
+ * Собирает счетчики и гистограммы воркера; метку бота добавляет мастер
+ */
+export class BotMetrics {
+  private registry: MetricsRegistry;
+  private incomingMessages: Counter;
+  private llmRequestDuration: Histogram;
+  private llmRetries: Counter;
+  private llmErrors: Counter;
+  private llmTokens: Counter;
+  private llmCircuitOpens: Counter;
+  private llmQueueDrops: Counter;
+  private telegramSendFailures: Counter;
+  private telegramFloodWaits: Counter;
+
+  constructor() {
+    this.registry = new MetricsRegistry();
+
+    this.incomingMessages = this.registry.counter(
+      "bot_incoming_messages_total",
+      "Incoming messages by trigger type"
+    );
+    this.llmRequestDuration = this.registry.histogram(
+      "bot_llm_request_duration_seconds",
+      "LLM request latency per attempt",
+      BOT_DEFAULTS.METRICS.LLM_LATENCY_BUCKETS
+    );
+    this.llmRetries = this.registry.counter(
+      "bot_llm_retries_total",
+      "LLM request retries"
+    );
+    this.llmErrors = this.registry.counter(
+      "bot_llm_errors_total",
+      "Failed LLM request attempts by error class"
+    );
+    this.llmTokens = this.registry.counter(
+      "bot_llm_tokens_total",
+      "Tokens spent on LLM requests by kind"
+    );
+    this.llmCircuitOpens = this.registry.counter(
+      "bot_llm_circuit_opens_total",
+      "Times the LLM circuit breaker opened"
+    );
+    this.llmQueueDrops = this.registry.counter(
+      "bot_llm_queue_dropped_total",
+      "LLM requests dropped by the queue before execution"
+    );
+    this.telegramSendFailures = this.registry.counter(
+      "bot_telegram_send_failures_total",
+      "Messages that could not be delivered to Telegram"
+    );
+    this.telegramFloodWaits = this.registry.counter(
+      "bot_telegram_flood_waits_total",
+      "Sends paused by Telegram flood control (429 retry_after)"
+    );
+  }
+
+  /**
+   * Учитывает входящее сообщение
+   * @param trigger Причина обработки или пропуска сообщения
+   */
+  public recordIncomingMessage(trigger: MessageTrigger): void {
+    this.incomingMessages.inc({ trigger });
+  }
+
+  /**
+   * Учитывает попытку запроса к LLM
+   * @param purpose Вид запроса
+   * @param durationMs Длительность попытки в мс
+   * @param errorType Класс ошибки, если попытка неудачна
+   */
+  public recordLlmAttempt(
+    purpose: GenerationPurpose,
+    durationMs: number,
+    errorType?: LlmErrorType
+  ): void {
+    this.llmRequestDuration.observe(
+      { purpose, outcome: errorType ? "error" : "success" },
+      durationMs / 1000
+    );
+
+    if (errorType) {
+      this.llmErrors.inc({ purpose, error_type: errorType });
+    }
+  }
+
+  /**
+   * Учитывает повторную попытку запроса к LLM
+   * @param purpose Вид запроса
+   */
+  public recordLlmRetry(purpose: GenerationPurpose): void {
+    this.llmRetries.inc({ purpose });
+  }
+
+  /**
+   * Учитывает размыкание предохранителя провайдера LLM
+   * @param provider Основной или резервный провайдер
+   */
+  public recordCircuitOpen(provider: "primary" | "fallback"): void {
+    this.llmCircuitOpens.inc({ provider });
+  }
+
+  /**
+   * Учитывает запрос, отброшенный очередью запросов к LLM
+   * @param purpose Вид запроса
+   * @param reason Вытеснен при переполнении или истек срок
+   */
+  public recordLlmQueueDrop(
+    purpose: GenerationPurpose,
+    reason: RequestDropReason
+  ): void {
+    this.llmQueueDrops.inc({ purpose, reason });
+  }
+
+  /**
+   * Учитывает расход токенов запроса к LLM
+   * @param purpose Вид запроса
+   * @param usage Расход токенов
+   */
+  public recordTokenUsage(purpose: GenerationPurpose, usage: TokenUsage): void {
+    this.llmTokens.inc({ purpose, kind: "prompt" }, usage.promptTokens);
+    this.llmTokens.inc({ purpose, kind: "completion" }, usage.completionTokens);
+  }
+
+  /**
+   * Учитывает сообщение, которое не удалось доставить в Telegram
+   * @param operation Вид отправки
+   */
+  public recordSendFailure(operation: SendOperation): void {
+    this.telegramSendFailures.inc({ operation });
+  }
+
+  /**
+   * Учитывает паузу отправки по ответу Telegram 429
+   */
+  public recordTelegramFloodWait(): void {
+    this.telegramFloodWaits.inc();
+  }
+
+  /**
+   * Возвращает снимок всех метрик бота
+   * @returns Массив сериализуемых снимков
+   */
+  public snapshot(): MetricFamilySnapshot[] {
+    return this.registry.snapshot();
+  }
+}
@@ -0,0 +1,161 @@
+import { HistogramSample, MetricFamilySnapshot, MetricSample } from "../types";
+
+type Labels = Record<string, string>;
+
+/**
+ * Формирует ключ набора меток, не зависящий от порядка полей
+ * @param labels Метки
+ * @returns Строковый ключ
+ */
+function labelsKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, labels[name]])
+  );
+}
+
+/**
+ * Монотонно растущий счетчик с метками
+ */
+export class Counter {
+  private values: Map<string, MetricSample>;
+
+  constructor(public readonly name: string, public readonly help: string) {
+    this.values = new Map<string, MetricSample>();
+  }
+
+  /**
+   * Увеличивает счетчик
+   * @param labels Метки
+   * @param value Приращение
+   */
+  public inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelsKey(labels);
+    const sample = this.values.get(key);
+
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  /**
+   * Возвращает снимок значений
+   * @returns Сериализуемый снимок метрики
+   */
+  public snapshot(): MetricFamilySnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: "counter",
+      samples: Array.from(this.values.values()).map((sample) => ({
+        labels: sample.labels,
+        value: sample.value,
+      })),
+    };
+  }
+}
+
+/**
+ * Гистограмма с фиксированными границами корзин
+ */
+export class Histogram {
+  private values: Map<string, HistogramSample>;
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    private readonly buckets: number[]
+  ) {
+    this.values = new Map<string, HistogramSample>();
+  }
+
+  /**
+   * Добавляет наблюдение
+   * @param labels Метки
+   * @param value Наблюдаемое значение
+   */
+  public observe(labels: Labels, value: number): void {
+    const key = labelsKey(labels);
+    let sample = this.values.get(key);
+
+    if (!sample) {
+      sample = {
+        labels: { ...labels },
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.values.set(key, sample);
+    }
+
+    // Корзины накопительные, как в формате Prometheus
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) sample!.counts[index]++;
+    });
+    sample.sum += value;
+    sample.count++;
+  }
+
+  /**
+   * Возвращает снимок значений
+   * @returns Сериализуемый снимок метрики
+   */
+  public snapshot(): MetricFamilySnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: "histogram",
+      buckets: [...this.buckets],
+      samples: Array.from(this.values.values()).map((sample) => ({
+        labels: sample.labels,
+        counts: [...sample.counts],
+        sum: sample.sum,
+        count: sample.count,
+      })),
+    };
+  }
+}
+
+/**
+ * Набор метрик процесса
+ * Значения хранятся в памяти воркера и периодически отправляются мастеру
+ */
+export class MetricsRegistry {
+  private metrics: (Counter | Histogram)[] = [];
+
+  /**
+   * Регистрирует счетчик
+   * @param name Имя метрики
+   * @param help Описание метрики
+   * @returns Счетчик
+   */
+  public counter(name: string, help: string): Counter {
+    const counter = new Counter(name, help);
+    this.metrics.push(counter);
+    return counter;
+  }
+
+  /**
+   * Регистрирует гистограмму
+   * @param name Имя метрики
+   * @param help Описание метрики
+   * @param buckets Верхние границы корзин по возрастанию
+   * @returns Гистограмма
+   */
+  public histogram(name: string, help: string, buckets: number[]): Histogram {
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.push(histogram);
+    return histogram;
+  }
+
+  /**
+   * Возвращает снимок всех метрик
+   * @returns Массив сериализуемых снимков
+   */
+  public snapshot(): MetricFamilySnapshot[] {
+    return this.metrics.map((metric) => metric.snapshot());
+  }
+}
@@ -0,0 +1,68 @@
+import * as http from "http";
+import { WorkerSupervisor } from "../supervisor/workerSupervisor";
+import { formatPrometheusMetrics } from "./prometheusFormatter";
+import { logger } from "../logger/logger";
+
+/**
+ * Класс HTTP-сервера метрик
+ * Отдает на /metrics показатели всех ботов, присланные воркерами мастеру
+ */
+export class MetricsServer {
+  private supervisor: WorkerSupervisor;
+  private host: string;
+  private port: number;
+  private server: http.Server | null = null;
+
+  constructor(supervisor: WorkerSupervisor, host: string, port: number) {
+    this.supervisor = supervisor;
+    this.host = host;
+    this.port = port;
+  }
+
+  /**
+   * Запускает HTTP-сервер
+   * @returns Promise, который разрешится, когда сервер начнет слушать порт
+   */
+  public start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      const pathname = new URL(req.url || "/", "http://localhost").pathname;
+
+      if (req.method !== "GET" || pathname !== "/metrics") {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("Not found\n");
+        return;
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      });
+      res.end(formatPrometheusMetrics(this.supervisor.getSnapshots()));
+    });
+    this.server = server;
+
+    return new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        logger.info(
+          `Метрики доступны на http://${this.host}:${this.port}/metrics`
+        );
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Останавливает HTTP-сервер
+   * @returns Promise, который разрешится после закрытия сервера
+   */
+  public close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+}
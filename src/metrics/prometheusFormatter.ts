@@ -0,0 +1,169 @@
+import { BotWorkerSnapshot, MetricFamilySnapshot } from "../types";
+
+interface MergedFamily {
+  family: MetricFamilySnapshot;
+  lines: string[];
+}
+
+/**
+ * Экранирует значение метки по правилам текстового формата Prometheus
+ * @param value Значение метки
+ * @returns Экранированное значение
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * Форматирует набор меток
+ * @param labels Метки
+ * @returns Строка вида {name="value",...} или пустая строка
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+/**
+ * Форматирует число для Prometheus
+ * @param value Число
+ * @returns Строковое представление
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Формирует строки значений одной метрики одного бота
+ * @param family Снимок метрики
+ * @param botName Имя бота, добавляется меткой bot
+ * @returns Строки значений
+ */
+function formatSamples(
+  family: MetricFamilySnapshot,
+  botName: string
+): string[] {
+  const lines: string[] = [];
+
+  if (family.type !== "histogram") {
+    for (const sample of family.samples) {
+      const labels = { bot: botName, ...sample.labels };
+      lines.push(
+        `${family.name}${formatLabels(labels)} ${formatValue(sample.value)}`
+      );
+    }
+    return lines;
+  }
+
+  for (const sample of family.samples) {
+    const labels = { bot: botName, ...sample.labels };
+
+    family.buckets.forEach((bound, index) => {
+      lines.push(
+        `${family.name}_bucket${formatLabels({
+          ...labels,
+          le: formatValue(bound),
+        })} ${sample.counts[index]}`
+      );
+    });
+    lines.push(
+      `${family.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${
+        sample.count
+      }`
+    );
+    lines.push(`${family.name}_sum${formatLabels(labels)} ${sample.sum}`);
+    lines.push(`${family.name}_count${formatLabels(labels)} ${sample.count}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Формирует показатели процессов ботов, известные мастеру
+ * @param snapshots Состояние ботов
+ * @returns Снимки метрик с меткой bot в значениях
+ */
+function supervisorFamilies(
+  snapshots: BotWorkerSnapshot[]
+): { botName: string; family: MetricFamilySnapshot }[] {
+  const result: { botName: string; family: MetricFamilySnapshot }[] = [];
+
+  for (const snapshot of snapshots) {
+    const { botName, metrics } = snapshot;
+    const gauge = (
+      name: string,
+      help: string,
+      samples: { labels: Record<string, string>; value: number }[]
+    ) =>
+      result.push({ botName, family: { name, help, type: "gauge", samples } });
+
+    gauge("bot_worker_up", "1 if the bot worker is running", [
+      { labels: {}, value: snapshot.status === "running" ? 1 : 0 },
+    ]);
+    result.push({
+      botName,
+      family: {
+        name: "bot_worker_restarts_total",
+        help: "Bot worker restarts",
+        type: "counter",
+        samples: [{ labels: {}, value: snapshot.restartCount }],
+      },
+    });
+
+    if (!metrics) continue;
+
+    gauge("bot_active_contexts", "Active conversation contexts", [
+      { labels: { kind: "user" }, value: metrics.activeContexts.users },
+      { labels: { kind: "post" }, value: metrics.activeContexts.posts },
+    ]);
+    gauge("bot_worker_memory_rss_bytes", "Bot worker resident memory", [
+      { labels: {}, value: metrics.memoryRssBytes },
+    ]);
+
+    for (const family of metrics.families) {
+      result.push({ botName, family });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Формирует ответ /metrics в текстовом формате Prometheus
+ * Метрики всех ботов объединяются по имени, бот указывается меткой bot
+ * @param snapshots Состояние ботов с последними показателями от воркеров
+ * @returns Текст в формате Prometheus
+ */
+export function formatPrometheusMetrics(
+  snapshots: BotWorkerSnapshot[]
+): string {
+  // Все значения одной метрики должны идти одной группой после HELP и TYPE
+  const merged = new Map<string, MergedFamily>();
+
+  for (const { botName, family } of supervisorFamilies(snapshots)) {
+    let entry = merged.get(family.name);
+    if (!entry) {
+      entry = { family, lines: [] };
+      merged.set(family.name, entry);
+    }
+    entry.lines.push(...formatSamples(family, botName));
+  }
+
+  const output: string[] = [];
+  for (const { family, lines } of merged.values()) {
+    output.push(`# HELP ${family.name} ${family.help}`);
+    output.push(`# TYPE ${family.name} ${family.type}`);
+    output.push(...lines);
+  }
+
+  return output.join("\n") + "\n";
+}
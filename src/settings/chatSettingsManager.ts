@@ -0,0 +1,62 @@
+import { BOT_DEFAULTS } from "../constants";
+import { ChatSettings } from "../types";
+import { KeyValueStore } from "../storage/keyValueStore";
+
+/**
+ * Класс для управления настройками отдельных чатов
+ * Настройки сохраняются в хранилище и переживают перезапуск бота
+ */
+export class ChatSettingsManager {
+  private settings: Map<string, ChatSettings>;
+  private store: KeyValueStore<ChatSettings>;
+
+  constructor(store: KeyValueStore<ChatSettings>) {
+    this.store = store;
+    this.settings = this.store.load();
+
+    // Оставляем в журнале только актуальные настройки
+    this.store.compact(this.settings);
+  }
+
+  /**
+   * Возвращает настройки чата с учетом значений по умолчанию
+   * @param chatId ID чата
+   * @returns Копия настроек чата
+   */
+  public get(chatId: number | string): ChatSettings {
+    return {
+      ...this.getDefaults(),
+      ...this.settings.get(String(chatId)),
+    };
+  }
+
+  /**
+   * Изменяет настройки чата и сохраняет их
+   * @param chatId ID чата
+   * @param patch Изменяемые поля
+   * @returns Обновленные настройки чата
+   */
+  public update(
+    chatId: number | string,
+    patch: Partial<ChatSettings>
+  ): ChatSettings {
+    const updated = { ...this.get(chatId), ...patch };
+
+    this.settings.set(String(chatId), updated);
+    this.store.set(String(chatId), updated);
+
+    return updated;
+  }
+
+  /**
+   * Возвращает настройки по умолчанию
+   * @returns Настройки для чата без сохраненных изменений
+   */
+  private getDefaults(): ChatSettings {
+    return {
+      enabled: true,
+      commentProbability: BOT_DEFAULTS.POSTS.COMMENT_PROBABILITY,
+      replyMode: "mention",
+    };
+  }
+}
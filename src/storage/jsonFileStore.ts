@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BOT_DEFAULTS } from "../constants";
+import { KeyValueStore } from "./keyValueStore";
+import { Logger, logger } from "../logger/logger";
+
+interface StoreRecord<T> {
+  op: "set" | "delete";
+  key: string;
+  value?: T;
+}
+
+/**
+ * Хранилище в виде append-only JSON-файла (одна запись на строку)
+ * Изменения копятся в памяти (по одной записи на ключ) и дописываются
+ * в конец файла асинхронно не чаще раза в FLUSH_DELAY_MS, при загрузке
+ * записи применяются по порядку. Периодическое сжатие перезаписывает
+ * файл только актуальными значениями
+ */
+export class JsonFileStore<T> implements KeyValueStore<T> {
+  private filePath: string;
+  private logger: Logger;
+  private writesSinceCompaction: number = 0;
+  // Последнее несохраненное изменение каждого ключа
+  private pending: Map<string, StoreRecord<T>> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Запись в файл идет строго по очереди, чтобы сжатие не перемешалось с дозаписью
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, botName: string) {
+    this.filePath = filePath;
+    this.logger = logger.child({ botName });
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  /**
+   * Загружает записи, воспроизводя журнал изменений
+   * @returns Map с актуальными записями в порядке их последнего изменения
+   */
+  public load(): Map<string, T> {
+    const entries = new Map<string, T>();
+
+    if (!fs.existsSync(this.filePath)) {
+      return entries;
+    }
+
+    const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const record: StoreRecord<T> = JSON.parse(line);
+        if (record.op === "set") {
+          // Перезаписанный ключ переносится в конец, как при последнем изменении
+          entries.delete(record.key);
+          entries.set(record.key, record.value as T);
+        } else if (record.op === "delete") {
+          entries.delete(record.key);
+        }
+      } catch (error) {
+        // Последняя строка могла быть записана не полностью при аварийном завершении
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      this.logger.warn(`Skipped ${skipped} corrupted records`, {
+        path: this.filePath,
+      });
+    }
+
+    // Журнал мог содержать много устаревших записей
+    this.writesSinceCompaction = lines.length;
+
+    return entries;
+  }
+
+  /**
+   * Планирует запись об изменении значения
+   * @param key Ключ записи
+   * @param value Значение записи
+   */
+  public set(key: string, value: T): void {
+    this.schedule({ op: "set", key, value });
+  }
+
+  /**
+   * Планирует запись об удалении значения
+   * @param key Ключ записи
+   */
+  public delete(key: string): void {
+    this.schedule({ op: "delete", key });
+  }
+
+  /**
+   * Перезаписывает файл актуальными значениями через временный файл
+   * Отложенные изменения уже входят в актуальные значения и отбрасываются.
+   * Ничего не делает, если с прошлого сжатия не было изменений
+   * @param entries Актуальные записи
+   */
+  public compact(entries: Map<string, T>): void {
+    if (this.writesSinceCompaction === 0 && this.pending.size === 0) return;
+
+    this.cancelFlush();
+    this.pending.clear();
+
+    // Значения сериализуются сразу: к моменту записи они могут измениться
+    const lines: string[] = [];
+    for (const [key, value] of entries.entries()) {
+      lines.push(JSON.stringify({ op: "set", key, value }));
+    }
+    const content = lines.length ? lines.join("\n") + "\n" : "";
+
+    this.enqueueWrite(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+
+      try {
+        await fs.promises.writeFile(tempPath, content);
+        await fs.promises.rename(tempPath, this.filePath);
+        this.writesSinceCompaction = 0;
+      } catch (error) {
+        this.logger.error("Error compacting store", {
+          path: this.filePath,
+          error,
+        });
+      }
+    });
+  }
+
+  /**
+   * Дописывает в файл все отложенные изменения
+   * @returns Promise, который разрешается после записи на диск
+   */
+  public flush(): Promise<void> {
+    this.cancelFlush();
+    if (this.pending.size === 0) return this.writeQueue;
+
+    // Изменения забираются и сериализуются сразу, а дозапись встает в очередь
+    // после предыдущих записей. Последующие изменения попадут в следующий flush
+    const records = Array.from(this.pending.values());
+    this.pending.clear();
+    const content = records.map((record) => JSON.stringify(record)).join("\n");
+
+    return this.enqueueWrite(async () => {
+      try {
+        await fs.promises.appendFile(this.filePath, content + "\n");
+        this.writesSinceCompaction += records.length;
+      } catch (error) {
+        // Ошибка записи не должна ломать обработку сообщений
+        this.logger.error("Error writing store", {
+          path: this.filePath,
+          error,
+        });
+      }
+    });
+  }
+
+  /**
+   * Запоминает изменение и планирует запись, если она еще не запланирована
+   * Повторное изменение ключа до записи заменяет предыдущее и переносит
+   * ключ в конец, чтобы журнал сохранял порядок последних изменений
+   * @param record Запись журнала
+   * @private
+   */
+  private schedule(record: StoreRecord<T>): void {
+    this.pending.delete(record.key);
+    this.pending.set(record.key, record);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(
+        () => this.flush(),
+        BOT_DEFAULTS.STORAGE.FLUSH_DELAY_MS
+      );
+    }
+  }
+
+  private cancelFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Ставит операцию с файлом в очередь после предыдущих
+   * @param write Операция записи, сама обрабатывающая свои ошибки
+   * @returns Promise, который разрешается после выполнения операции
+   * @private
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write);
+    return this.writeQueue;
+  }
+}
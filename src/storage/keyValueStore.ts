@@ -0,0 +1,54 @@
+/**
+ * Интерфейс хранилища записей по строковому ключу
+ * Используется для сохранения состояния бота между перезапусками
+ */
+export interface KeyValueStore<T> {
+  /**
+   * Загружает все сохраненные записи
+   * @returns Map с записями в порядке их последнего сохранения
+   */
+  load(): Map<string, T>;
+
+  /**
+   * Сохраняет запись
+   * @param key Ключ записи
+   * @param value Значение записи
+   */
+  set(key: string, value: T): void;
+
+  /**
+   * Удаляет запись
+   * @param key Ключ записи
+   */
+  delete(key: string): void;
+
+  /**
+   * Перезаписывает хранилище актуальным набором записей
+   * @param entries Актуальные записи
+   */
+  compact(entries: Map<string, T>): void;
+
+  /**
+   * Сохраняет отложенные изменения
+   * @returns Promise, который разрешается после сохранения
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Хранилище без сохранения на диск
+ * Состояние живет только в памяти процесса
+ */
+export class MemoryStore<T> implements KeyValueStore<T> {
+  public load(): Map<string, T> {
+    return new Map<string, T>();
+  }
+
+  public set(key: string, value: T): void {}
+
+  public delete(key: string): void {}
+
+  public compact(entries: Map<string, T>): void {}
+
+  public async flush(): Promise<void> {}
+}
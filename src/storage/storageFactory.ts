@@ -0,0 +1,42 @@
+import * as path from "path";
+import { BotConfig } from "../types";
+import { JsonFileStore } from "./jsonFileStore";
+import { KeyValueStore, MemoryStore } from "./keyValueStore";
+
+// Папка data в корне проекта (одинаково для src и dist)
+const DEFAULT_DATA_DIR = path.join(__dirname, "../../data");
+
+/**
+ * Создает хранилище для набора записей бота
+ * @param config Конфигурация бота
+ * @param name Имя набора записей (становится именем файла)
+ * @returns Экземпляр хранилища
+ */
+export function createStore<T>(
+  config: BotConfig,
+  name: string
+): KeyValueStore<T> {
+  const storage = config.STORAGE;
+
+  if (storage?.TYPE === "memory") {
+    return new MemoryStore<T>();
+  }
+
+  const dataDir = storage?.DATA_DIR
+    ? path.resolve(storage.DATA_DIR)
+    : DEFAULT_DATA_DIR;
+
+  return new JsonFileStore<T>(
+    path.join(dataDir, getBotDirName(config.BOT_NAME), `${name}.jsonl`),
+    config.BOT_NAME
+  );
+}
+
+/**
+ * Возвращает безопасное имя папки для бота
+ * @param botName Имя бота
+ * @returns Имя папки
+ */
+function getBotDirName(botName: string): string {
+  return botName.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
@@ -0,0 +1,597 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fork, ChildProcess } from "child_process";
+import { BOT_DEFAULTS } from "../constants";
+import {
+  BotConfig,
+  BotWorkerSnapshot,
+  BotWorkerStatus,
+  MasterToWorkerMessage,
+  ProcessSignal,
+  WorkerMetricsSnapshot,
+  WorkerToMasterMessage,
+} from "../types";
+import { logger } from "../logger/logger";
+
+const WORKER_MESSAGE_TYPES: ReadonlyArray<WorkerToMasterMessage["type"]> = [
+  "ready",
+  "log",
+  "metrics",
+  "heartbeat",
+  "shutdown-ack",
+  "fatal-error",
+];
+
+/**
+ * Проверяет, что сообщение от воркера соответствует протоколу IPC
+ * @param message Сообщение IPC
+ * @returns true, если сообщение известного типа
+ */
+function isWorkerMessage(message: unknown): message is WorkerToMasterMessage {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    (WORKER_MESSAGE_TYPES as readonly unknown[]).includes(
+      (message as { type?: unknown }).type
+    )
+  );
+}
+
+interface BotWorkerState {
+  config: BotConfig;
+  worker: ChildProcess | null;
+  status: BotWorkerStatus;
+  startedAt: number | null;
+  restartCount: number;
+  // Время недавних аварийных завершений для обнаружения цикла падений
+  recentCrashes: number[];
+  lastExitReason: string | null;
+  // Причина, сообщенная текущим процессом до завершения (фатальная ошибка, нет heartbeat)
+  pendingExitReason: string | null;
+  lastHeartbeatAt: number | null;
+  metrics: WorkerMetricsSnapshot | null;
+  restartTimer: NodeJS.Timeout | null;
+  stopping: boolean;
+}
+
+/**
+ * Класс для управления процессами ботов
+ * Запускает воркеры, перезапускает упавшие с экспоненциальной задержкой
+ * и помечает бота как сломанного после серии быстрых падений
+ */
+export class WorkerSupervisor {
+  private states: Map<string, BotWorkerState>;
+  private isDevelopment: boolean;
+  private isShuttingDown: boolean = false;
+  private heartbeatTimer: NodeJS.Timeout;
+
+  constructor(isDevelopment: boolean) {
+    this.states = new Map<string, BotWorkerState>();
+    this.isDevelopment = isDevelopment;
+
+    // Периодически проверяем, что воркеры присылают heartbeat
+    this.heartbeatTimer = setInterval(
+      () => this.checkHeartbeats(),
+      BOT_DEFAULTS.WORKER.HEARTBEAT_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Запускает процесс бота
+   * @param config Конфигурация бота
+   */
+  public start(config: BotConfig): void {
+    if (this.isShuttingDown) return;
+
+    let state = this.states.get(config.BOT_NAME);
+    if (state?.worker) {
+      logger.warn("Бот уже запущен", { botName: config.BOT_NAME });
+      return;
+    }
+
+    if (!state) {
+      state = this.createState(config, "starting");
+    }
+
+    state.config = config;
+    state.stopping = false;
+    // Ручной запуск начинает отсчет падений заново
+    state.recentCrashes = [];
+    this.spawn(state);
+  }
+
+  /**
+   * Перезапускает процесс бота, при необходимости с новой конфигурацией
+   * @param botName Имя бота
+   * @param config Новая конфигурация (по умолчанию текущая)
+   * @returns Promise, который разрешится после запуска нового процесса
+   */
+  public async restart(botName: string, config?: BotConfig): Promise<void> {
+    const state = this.states.get(botName);
+    const nextConfig = config || state?.config;
+    if (!nextConfig) return;
+
+    await this.stop(botName);
+    if (state) state.restartCount++;
+    this.start(nextConfig);
+  }
+
+  /**
+   * Останавливает процесс бота и перестает его отслеживать
+   * @param botName Имя бота
+   * @returns Promise, который разрешится после завершения процесса
+   */
+  public async remove(botName: string): Promise<void> {
+    await this.stop(botName);
+    this.states.delete(botName);
+  }
+
+  /**
+   * Передает работающему воркеру новую конфигурацию по IPC
+   * Воркер применяет поля, которые можно менять без перезапуска
+   * @param config Новая конфигурация бота
+   * @returns true, если конфигурация отправлена воркеру
+   */
+  public updateConfig(config: BotConfig): boolean {
+    const state = this.states.get(config.BOT_NAME);
+    if (!state?.worker?.connected) return false;
+
+    state.config = config;
+    this.sendToWorker(state.worker, { type: "config-update", config });
+    return true;
+  }
+
+  /**
+   * Сохраняет конфигурацию бота, не запуская процесс
+   * Нужна для остановленного бота: конфигурация применится при следующем запуске
+   * @param config Новая конфигурация бота
+   */
+  public setConfig(config: BotConfig): void {
+    const state =
+      this.states.get(config.BOT_NAME) || this.createState(config, "stopped");
+    state.config = config;
+  }
+
+  /**
+   * Останавливает процесс бота без последующего перезапуска
+   * @param botName Имя бота
+   * @param signal Сигнал для принудительного завершения
+   * @returns Promise, который разрешится после завершения процесса
+   */
+  public async stop(
+    botName: string,
+    signal: ProcessSignal = "SIGTERM"
+  ): Promise<void> {
+    const state = this.states.get(botName);
+    if (!state) return;
+
+    state.stopping = true;
+    this.cancelRestart(state);
+
+    const worker = state.worker;
+    if (!worker || worker.exitCode !== null || worker.signalCode !== null) {
+      state.status = "stopped";
+      return;
+    }
+
+    const exited = new Promise<void>((resolve) =>
+      worker.once("exit", () => resolve())
+    );
+    const waitForExit = (ms: number): Promise<boolean> =>
+      new Promise((resolve) => {
+        const timeout = setTimeout(() => resolve(false), ms);
+        exited.then(() => {
+          clearTimeout(timeout);
+          resolve(true);
+        });
+      });
+    const gracePeriod = BOT_DEFAULTS.SUPERVISOR.SHUTDOWN_TIMEOUT_MS;
+
+    // Просим воркер завершиться корректно
+    this.sendToWorker(worker, { type: "shutdown" });
+    if (await waitForExit(gracePeriod)) return;
+
+    // Страховка: принудительно завершаем не остановившийся воркер и ждем выхода,
+    // иначе следующий запуск примет еще живой процесс за работающего бота
+    logger.warn("Принудительное завершение воркера", {
+      botName,
+      pid: worker.pid,
+      signal,
+    });
+    worker.kill(signal);
+    if (await waitForExit(gracePeriod)) return;
+
+    logger.warn("Воркер не завершился по сигналу, отправляем SIGKILL", {
+      botName,
+      pid: worker.pid,
+    });
+    worker.kill("SIGKILL");
+    await exited;
+  }
+
+  /**
+   * Останавливает всех воркеров и ждет их корректного завершения
+   * После вызова перезапуски и новые запуски не выполняются
+   * @param signal Сигнал для принудительного завершения
+   * @returns Promise, который разрешится после завершения всех воркеров
+   */
+  public async stopAll(signal: ProcessSignal): Promise<void> {
+    if (this.isShuttingDown) return; // Предотвращаем двойное завершение
+
+    this.isShuttingDown = true;
+    clearInterval(this.heartbeatTimer);
+    logger.info("Получен сигнал завершения, останавливаем всех ботов", {
+      signal,
+    });
+
+    await Promise.all(
+      Array.from(this.states.keys()).map((botName) =>
+        this.stop(botName, signal)
+      )
+    );
+
+    logger.info("Все боты остановлены, завершение приложения");
+  }
+
+  /**
+   * Возвращает состояние всех ботов
+   * @returns Массив снимков состояния
+   */
+  public getSnapshots(): BotWorkerSnapshot[] {
+    return Array.from(this.states.values()).map((state) =>
+      this.toSnapshot(state)
+    );
+  }
+
+  /**
+   * Возвращает состояние одного бота
+   * @param botName Имя бота
+   * @returns Снимок состояния или null, если бот неизвестен
+   */
+  public getSnapshot(botName: string): BotWorkerSnapshot | null {
+    const state = this.states.get(botName);
+    return state ? this.toSnapshot(state) : null;
+  }
+
+  /**
+   * Возвращает текущую конфигурацию бота
+   * @param botName Имя бота
+   * @returns Конфигурация или null, если бот неизвестен
+   */
+  public getConfig(botName: string): BotConfig | null {
+    return this.states.get(botName)?.config || null;
+  }
+
+  /**
+   * Создает и регистрирует состояние бота без процесса
+   * @param config Конфигурация бота
+   * @param status Начальный статус
+   * @returns Новое состояние
+   * @private
+   */
+  private createState(
+    config: BotConfig,
+    status: BotWorkerStatus
+  ): BotWorkerState {
+    const state: BotWorkerState = {
+      config,
+      worker: null,
+      status,
+      startedAt: null,
+      restartCount: 0,
+      recentCrashes: [],
+      lastExitReason: null,
+      pendingExitReason: null,
+      lastHeartbeatAt: null,
+      metrics: null,
+      restartTimer: null,
+      stopping: false,
+    };
+    this.states.set(config.BOT_NAME, state);
+    return state;
+  }
+
+  /**
+   * Формирует снимок состояния бота
+   * @param state Состояние бота
+   * @returns Снимок состояния
+   * @private
+   */
+  private toSnapshot(state: BotWorkerState): BotWorkerSnapshot {
+    return {
+      botName: state.config.BOT_NAME,
+      status: state.status,
+      pid: state.worker?.pid ?? null,
+      startedAt: state.startedAt,
+      restartCount: state.restartCount,
+      lastExitReason: state.lastExitReason,
+      lastHeartbeatAt: state.lastHeartbeatAt,
+      metrics: state.metrics,
+    };
+  }
+
+  /**
+   * Отправляет воркеру сообщение протокола, если канал IPC открыт
+   * @param worker Процесс воркера
+   * @param message Сообщение для воркера
+   * @private
+   */
+  private sendToWorker(
+    worker: ChildProcess,
+    message: MasterToWorkerMessage
+  ): void {
+    if (worker.connected) {
+      worker.send(message);
+    }
+  }
+
+  /**
+   * Принудительно перезапускает воркеры, переставшие присылать heartbeat
+   * Завершение процесса обрабатывается в handleExit, который и планирует перезапуск
+   * @private
+   */
+  private checkHeartbeats(): void {
+    if (this.isShuttingDown) return;
+
+    const now = Date.now();
+    const timeout = BOT_DEFAULTS.WORKER.HEARTBEAT_TIMEOUT_MS;
+
+    for (const state of this.states.values()) {
+      const worker = state.worker;
+      if (!worker || state.stopping || state.lastHeartbeatAt === null) continue;
+      if (state.status !== "starting" && state.status !== "running") continue;
+
+      const silentFor = now - state.lastHeartbeatAt;
+      if (silentFor <= timeout) continue;
+
+      logger.error("Воркер не присылает heartbeat, принудительно завершаем", {
+        botName: state.config.BOT_NAME,
+        pid: worker.pid,
+        silentForMs: silentFor,
+      });
+      state.pendingExitReason = `нет heartbeat ${Math.round(
+        silentFor / 1000
+      )}с`;
+      // Не даем повторно сработать проверке до завершения процесса
+      state.lastHeartbeatAt = null;
+      worker.kill("SIGKILL");
+    }
+  }
+
+  /**
+   * Создает дочерний процесс для бота и подписывается на его события
+   * @param state Состояние бота
+   * @private
+   */
+  private spawn(state: BotWorkerState): void {
+    const config = state.config;
+
+    try {
+      const worker = this.forkWorker(config);
+
+      state.worker = worker;
+      state.status = "starting";
+      state.startedAt = Date.now();
+      // Отсчет heartbeat начинается с запуска процесса
+      state.lastHeartbeatAt = state.startedAt;
+      state.pendingExitReason = null;
+      state.metrics = null;
+      logger.info("Запущен процесс бота", {
+        botName: config.BOT_NAME,
+        pid: worker.pid,
+      });
+
+      worker.on("error", (error) => {
+        logger.error("Ошибка в процессе бота", {
+          botName: config.BOT_NAME,
+          error,
+        });
+      });
+
+      worker.on("exit", (code, signal) => {
+        this.handleExit(state, worker, code, signal);
+      });
+
+      // Добавляем обработчик сообщений от воркера
+      worker.on("message", (message: unknown) => {
+        this.handleMessage(state, message);
+      });
+    } catch (err) {
+      logger.error("Не удалось запустить бота", {
+        botName: config.BOT_NAME,
+        error: err,
+      });
+      state.worker = null;
+      state.lastExitReason = `ошибка запуска: ${err}`;
+      this.scheduleRestart(state);
+    }
+  }
+
+  /**
+   * Запускает процесс воркера в зависимости от режима
+   * @param config Конфигурация бота
+   * @returns Дочерний процесс
+   * @private
+   */
+  private forkWorker(config: BotConfig): ChildProcess {
+    const configString = JSON.stringify(config);
+
+    if (this.isDevelopment) {
+      // Режим разработки: используем ts-node для запуска TypeScript файлов
+      const tsNodePath = path.join(
+        __dirname,
+        "../../node_modules/.bin/ts-node"
+      );
+      const botWorkerPath = path.join(__dirname, "../bot/botWorker.ts");
+
+      logger.debug("Запуск worker в режиме разработки", {
+        botName: config.BOT_NAME,
+        path: botWorkerPath,
+      });
+      return fork(botWorkerPath, [configString], {
+        execPath: tsNodePath,
+        execArgv: [],
+      });
+    }
+
+    // Режим продакшн: используем скомпилированные JS файлы
+    const botWorkerPath = path.join(__dirname, "../bot/botWorker.js");
+
+    logger.debug("Запуск worker в режиме продакшн", {
+      botName: config.BOT_NAME,
+      path: botWorkerPath,
+      exists: fs.existsSync(botWorkerPath),
+    });
+
+    return fork(botWorkerPath, [configString]);
+  }
+
+  /**
+   * Обрабатывает сообщения от воркера
+   * @param state Состояние бота
+   * @param message Сообщение IPC
+   * @private
+   */
+  private handleMessage(state: BotWorkerState, message: unknown): void {
+    const botName = state.config.BOT_NAME;
+
+    if (!isWorkerMessage(message)) {
+      logger.warn("Неизвестное сообщение от воркера", { botName, message });
+      return;
+    }
+
+    switch (message.type) {
+      case "ready":
+        state.status = "running";
+        state.lastHeartbeatAt = Date.now();
+        logger.info("Бот успешно инициализирован и готов к работе", {
+          botName,
+          pid: message.pid,
+        });
+        break;
+      case "log":
+        logger[message.level](message.content, { botName });
+        break;
+      case "heartbeat":
+        state.lastHeartbeatAt = Date.now();
+        break;
+      case "metrics":
+        state.metrics = message.snapshot;
+        break;
+      case "shutdown-ack":
+        logger.info("Воркер подтвердил завершение", { botName });
+        break;
+      case "fatal-error":
+        // Причина сохранится и после завершения процесса
+        state.pendingExitReason = `фатальная ошибка: ${message.message}`;
+        logger.error("Фатальная ошибка воркера", {
+          botName,
+          error: message.stack || message.message,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Обрабатывает завершение процесса бота
+   * @param state Состояние бота
+   * @param worker Завершившийся процесс
+   * @param code Код завершения
+   * @param signal Сигнал завершения
+   * @private
+   */
+  private handleExit(
+    state: BotWorkerState,
+    worker: ChildProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    const botName = state.config.BOT_NAME;
+    logger.info("Процесс бота завершился", {
+      botName,
+      pid: worker.pid,
+      code,
+      signal,
+    });
+
+    // Событие от процесса, который уже заменен новым
+    if (state.worker !== worker) return;
+
+    state.worker = null;
+    // Дополняем код завершения причиной, которую сообщил воркер или проверка heartbeat
+    const exitDescription = signal ? `сигнал ${signal}` : `код ${code}`;
+    state.lastExitReason = state.pendingExitReason
+      ? `${state.pendingExitReason} (${exitDescription})`
+      : exitDescription;
+    state.pendingExitReason = null;
+
+    // Плановая остановка: не перезапускаем
+    if (this.isShuttingDown || state.stopping) {
+      state.status = "stopped";
+      return;
+    }
+
+    this.scheduleRestart(state);
+  }
+
+  /**
+   * Планирует перезапуск бота с экспоненциальной задержкой
+   * Если бот падает слишком часто, он помечается как сломанный
+   * @param state Состояние бота
+   * @private
+   */
+  private scheduleRestart(state: BotWorkerState): void {
+    const botName = state.config.BOT_NAME;
+    const now = Date.now();
+    const { CRASH_WINDOW_MS, MAX_CRASHES_IN_WINDOW } = BOT_DEFAULTS.SUPERVISOR;
+
+    // Учитываем только падения в пределах окна
+    state.recentCrashes = state.recentCrashes.filter(
+      (time) => now - time < CRASH_WINDOW_MS
+    );
+    state.recentCrashes.push(now);
+
+    if (state.recentCrashes.length >= MAX_CRASHES_IN_WINDOW) {
+      state.status = "failed";
+      logger.error(
+        `Бот упал ${state.recentCrashes.length} раз за ${
+          CRASH_WINDOW_MS / 60000
+        } минут и больше не будет перезапускаться`,
+        { botName, lastExitReason: state.lastExitReason }
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      BOT_DEFAULTS.SUPERVISOR.RESTART_BASE_DELAY_MS *
+        Math.pow(2, state.recentCrashes.length - 1),
+      BOT_DEFAULTS.SUPERVISOR.RESTART_MAX_DELAY_MS
+    );
+
+    state.status = "restarting";
+    logger.warn(
+      `Перезапуск бота через ${delay}мс (падение ${state.recentCrashes.length}/${MAX_CRASHES_IN_WINDOW})`,
+      { botName, lastExitReason: state.lastExitReason }
+    );
+
+    state.restartTimer = setTimeout(() => {
+      state.restartTimer = null;
+      if (this.isShuttingDown || state.stopping) return;
+
+      state.restartCount++;
+      this.spawn(state);
+    }, delay);
+  }
+
+  /**
+   * Отменяет запланированный перезапуск
+   * @param state Состояние бота
+   * @private
+   */
+  private cancelRestart(state: BotWorkerState): void {
+    if (state.restartTimer) {
+      clearTimeout(state.restartTimer);
+      state.restartTimer = null;
+    }
+  }
+}
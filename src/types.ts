@@ -1,24 +1,295 @@
+export type LlmProviderType = "deepseek" | "openai-compatible";
+
+export interface LlmProviderConfig {
+  TYPE: LlmProviderType;
+  BASE_URL?: string; // Обязателен для openai-compatible, например http://localhost:11434/v1
+  API_KEY?: string;
+  MODEL?: string;
+  MAX_TOKENS?: number;
+  STREAMING?: boolean; // false, если эндпоинт не поддерживает потоковую выдачу (SSE)
+}
+
+// Резервный провайдер или модель на время, пока основной недоступен
+export interface LlmFallbackConfig {
+  PROVIDER?: LlmProviderConfig; // По умолчанию тот же провайдер, что и основной
+  MODEL?: string; // По умолчанию модель резервного провайдера
+}
+
+export interface CircuitBreakerConfig {
+  FAILURE_THRESHOLD?: number; // Неудачных запросов подряд до размыкания
+  COOLDOWN_MS?: number; // Пауза, в течение которой запросы сразу отклоняются
+}
+
+// Очередь запросов к LLM одного бота
+export interface LlmQueueConfig {
+  MAX_CONCURRENCY?: number; // Одновременных запросов к API
+  MAX_QUEUE_LENGTH?: number; // Ожидающих запросов, сверх этого вытесняются менее важные
+  DEADLINE_MS?: number; // Запрос, не выполненный за это время, отбрасывается
+}
+
+export interface GenerationParams {
+  MODEL?: string;
+  MAX_TOKENS?: number;
+  TEMPERATURE?: number;
+  TOP_P?: number;
+  PRESENCE_PENALTY?: number;
+  FREQUENCY_PENALTY?: number;
+  STOP?: string[];
+}
+
+// Общие параметры генерации и переопределения для отдельных видов запросов
+export interface GenerationConfig extends GenerationParams {
+  DIRECT_REPLY?: GenerationParams;
+  POST_COMMENT?: GenerationParams;
+  TOPIC_INFERENCE?: GenerationParams;
+  SUMMARY?: GenerationParams;
+}
+
+export type GenerationPurpose =
+  | "direct_reply"
+  | "post_comment"
+  | "topic_inference"
+  | "summary";
+
+export interface StorageConfig {
+  TYPE: "file" | "memory";
+  DATA_DIR?: string; // По умолчанию папка data в корне проекта
+}
+
+export interface CommandsConfig {
+  START_MESSAGE?: string;
+  ABOUT_MESSAGE?: string;
+}
+
+export interface PrivateChatConfig {
+  ENABLED?: boolean; // По умолчанию бот отвечает в личных чатах
+  SYSTEM_PROMPT_ADDITION?: string; // Добавляется к SYSTEM_PROMPT в личных чатах
+  ALLOWED_USER_IDS?: number[]; // Если задан, в личке отвечаем только этим пользователям
+}
+
+// Учет расхода токенов и лимиты; лимиты не заданы — расход только учитывается
+export interface UsageConfig {
+  CHAT_DAILY_TOKENS?: number; // На чат за сутки (UTC)
+  CHAT_MONTHLY_TOKENS?: number; // На чат за календарный месяц
+  USER_DAILY_TOKENS?: number; // На пользователя за сутки во всех чатах
+  BOT_MONTHLY_TOKENS?: number; // На бота целиком за месяц
+  QUOTA_EXCEEDED_MESSAGE?: string; // Отказ в стиле персонажа при исчерпании лимита
+  PROMPT_PRICE_PER_MILLION?: number; // Цена миллиона токенов промпта для отчета о стоимости
+  COMPLETION_PRICE_PER_MILLION?: number;
+  CURRENCY?: string; // По умолчанию USD
+}
+
+// Распознавание фотографий в постах и сообщениях
+export interface VisionConfig {
+  ENABLED?: boolean; // Провайдер должен поддерживать изображения в сообщениях
+  MAX_IMAGE_BYTES?: number; // Фото больше этого размера обрабатываются только по подписи
+}
+
+// Расшифровка голосовых через OpenAI-совместимый /audio/transcriptions (например, свой whisper-сервер)
+export interface TranscriptionConfig {
+  BASE_URL: string; // Например, http://localhost:8000/v1
+  API_KEY?: string; // Локальные серверы обычно не требуют ключа
+  MODEL?: string; // По умолчанию whisper-1
+  LANGUAGE?: string; // Код языка ISO-639-1, ускоряет и уточняет распознавание
+  MAX_DURATION_SEC?: number; // Более длинные сообщения не расшифровываются
+  ECHO_TRANSCRIPT?: boolean; // Показывать расшифровку перед ответом
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
 export interface BotConfig {
   BOT_TOKEN: string;
   BOT_NAME: string;
-  DEEPSEEK_API_KEY: string;
+  DEEPSEEK_API_KEY?: string;
+  LLM_PROVIDER?: LlmProviderConfig;
+  LLM_FALLBACK?: LlmFallbackConfig;
+  CIRCUIT_BREAKER?: CircuitBreakerConfig;
+  LLM_QUEUE?: LlmQueueConfig;
+  GENERATION?: GenerationConfig;
+  STORAGE?: StorageConfig;
   SYSTEM_PROMPT: string;
   POST_COMMENT_PROMPT_TEMPLATE: string;
   IGNORE_MESSAGES_OLDER_THAN_MINS?: number;
+  CONTEXT_TOKEN_BUDGET?: number; // Бюджет токенов на промпт для ответов пользователям
+  COMMANDS?: CommandsConfig; // Тексты ответов на /start и /about
+  PRIVATE_CHAT?: PrivateChatConfig;
+  USAGE?: UsageConfig;
+  VISION?: VisionConfig;
+  TRANSCRIPTION?: TranscriptionConfig;
+  LOG_LEVEL?: LogLevel; // По умолчанию LOG_LEVEL из окружения или info
+}
+
+// Конфигурация бота вместе с файлом, из которого она загружена
+export interface LoadedBotConfig {
+  file: string;
+  config: BotConfig;
+}
+
+// Расход токенов одного запроса к модели
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Чат и пользователь, на которых записывается расход токенов запроса
+export interface UsageScope {
+  chatId: number;
+  userId?: number;
+  chatLabel?: string; // Название чата для отчета
+  userLabel?: string; // Имя пользователя для отчета
+}
+
+// Накопленный расход токенов за период
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  label?: string;
+}
+
+// Строка отчета о расходе: чат, пользователь или бот целиком
+export interface UsageReportEntry extends UsageTotals {
+  id: string;
+  totalTokens: number;
+  cost: number | null; // null, если цены не заданы в конфигурации
 }
 
+// Расход за период (сутки или месяц) с крупнейшими потребителями
+export interface UsagePeriodReport {
+  period: string; // YYYY-MM-DD или YYYY-MM
+  total: UsageReportEntry;
+  topChats: UsageReportEntry[];
+  topUsers: UsageReportEntry[];
+}
+
+export interface UsageReport {
+  currency: string;
+  day: UsagePeriodReport;
+  month: UsagePeriodReport;
+}
+
+// Части сообщения в формате OpenAI: текст и изображения для моделей с поддержкой зрения
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
 export interface ChatMessage {
   role: "user" | "assistant" | "system";
-  content: string;
+  // Изображения передаются только в запросе, в истории хранится текст
+  content: string | ChatContentPart[];
+}
+
+// Результат анализа поста канала
+export interface PostTopic {
+  topic: string;
+  keywords: string[];
+  tone?: string; // Например: серьезный, ироничный, тревожный
+  language?: string; // Язык поста
 }
 
 export interface UserContext {
   messages: ChatMessage[];
   lastInteraction: number;
-  postTopic?: string;
+  postTopic?: PostTopic;
+  postText?: string; // Текст поста, под которым идет обсуждение
+  summary?: string; // Краткое содержание сообщений, вытесненных из истории
   messageCount: number; // Счетчик сообщений для периодической "настройки"
   activeConversation: boolean; // Флаг активного разговора
 }
 
+// Когда бот отвечает в группе: на упоминания и ответы, только на ответы или на все сообщения
+export type ReplyMode = "mention" | "reply" | "all";
+
+export interface ChatSettings {
+  enabled: boolean;
+  commentProbability: number;
+  replyMode: ReplyMode;
+  language?: string; // Язык ответов, если отличается от языка промпта
+  persona?: string; // Дополнение к системному промпту для этого чата
+}
+
+// Причина, по которой входящее сообщение обработано или пропущено
+export type MessageTrigger =
+  | "mention"
+  | "reply"
+  | "private"
+  | "channel_post"
+  | "command"
+  | "other" // Режим ответов "all": сообщение без упоминания и ответа
+  | "unaddressed"
+  | "ignored_old";
+
+// Значение счетчика или показателя с набором меток
+export interface MetricSample {
+  labels: Record<string, string>;
+  value: number;
+}
+
+// Накопленные значения гистограммы: counts[i] — наблюдения не больше buckets[i]
+export interface HistogramSample {
+  labels: Record<string, string>;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+// Сериализуемый снимок метрики для передачи мастеру по IPC
+export type MetricFamilySnapshot =
+  | {
+      name: string;
+      help: string;
+      type: "counter" | "gauge";
+      samples: MetricSample[];
+    }
+  | {
+      name: string;
+      help: string;
+      type: "histogram";
+      buckets: number[];
+      samples: HistogramSample[];
+    };
+
+// Показатели воркера, которые он периодически отправляет мастеру
+export interface WorkerMetricsSnapshot {
+  activeContexts: { users: number; posts: number };
+  uptimeMs: number;
+  memoryRssBytes: number;
+  families: MetricFamilySnapshot[];
+  usage: UsageReport;
+}
+
+// Сообщения IPC от воркера к мастеру
+export type WorkerToMasterMessage =
+  | { type: "ready"; pid: number }
+  | { type: "log"; level: "info" | "warn" | "error"; content: string }
+  | { type: "metrics"; snapshot: WorkerMetricsSnapshot }
+  | { type: "heartbeat"; timestamp: number }
+  | { type: "shutdown-ack" }
+  | { type: "fatal-error"; message: string; stack?: string };
+
+// Сообщения IPC от мастера к воркеру
+export type MasterToWorkerMessage =
+  | { type: "config-update"; config: BotConfig }
+  | { type: "shutdown" };
+
+export type BotWorkerStatus =
+  | "starting"
+  | "running"
+  | "restarting"
+  | "stopped"
+  | "failed";
+
+// Состояние процесса бота для просмотра со стороны мастера
+export interface BotWorkerSnapshot {
+  botName: string;
+  status: BotWorkerStatus;
+  pid: number | null;
+  startedAt: number | null;
+  restartCount: number;
+  lastExitReason: string | null;
+  lastHeartbeatAt: number | null;
+  metrics: WorkerMetricsSnapshot | null;
+}
+
 // Добавляем тип для сигналов процесса
 export type ProcessSignal = "SIGINT" | "SIGTERM" | "SIGKILL";
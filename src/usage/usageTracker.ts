@@ -0,0 +1,325 @@
+import { BOT_DEFAULTS } from "../constants";
+import {
+  BotConfig,
+  TokenUsage,
+  UsageConfig,
+  UsagePeriodReport,
+  UsageReport,
+  UsageReportEntry,
+  UsageScope,
+  UsageTotals,
+} from "../types";
+import { KeyValueStore } from "../storage/keyValueStore";
+
+type PeriodType = "day" | "month";
+type ConsumerKind = "bot" | "chat" | "user";
+
+// Лимиты, которые проверяются перед запросом к модели
+export type QuotaName =
+  | "CHAT_DAILY_TOKENS"
+  | "CHAT_MONTHLY_TOKENS"
+  | "USER_DAILY_TOKENS"
+  | "BOT_MONTHLY_TOKENS";
+
+/**
+ * Класс учета расхода токенов по боту, чатам и пользователям
+ * Итоги хранятся по суткам и месяцам (UTC) в ключах вида
+ * day:2024-05-01:chat:<id>, month:2024-05:user:<id>, day:2024-05-01:bot
+ */
+export class UsageTracker {
+  private config: BotConfig;
+  private totals: Map<string, UsageTotals>;
+  private store: KeyValueStore<UsageTotals>;
+  private currentDay: string;
+
+  constructor(config: BotConfig, store: KeyValueStore<UsageTotals>) {
+    this.config = config;
+    this.store = store;
+    this.totals = this.store.load();
+    this.currentDay = this.getPeriod("day");
+
+    this.pruneExpired();
+  }
+
+  /**
+   * Учитывает расход токенов одного запроса
+   * @param usage Расход токенов
+   * @param scope Чат и пользователь запроса (без него учитывается только бот)
+   */
+  public record(usage: TokenUsage, scope?: UsageScope): void {
+    // Со сменой суток удаляем итоги, вышедшие за срок хранения
+    if (this.getPeriod("day") !== this.currentDay) {
+      this.currentDay = this.getPeriod("day");
+      this.pruneExpired();
+    }
+
+    for (const periodType of ["day", "month"] as PeriodType[]) {
+      this.add(this.createKey(periodType, "bot"), usage);
+
+      if (!scope) continue;
+
+      this.add(
+        this.createKey(periodType, "chat", scope.chatId),
+        usage,
+        scope.chatLabel
+      );
+      if (scope.userId !== undefined) {
+        this.add(
+          this.createKey(periodType, "user", scope.userId),
+          usage,
+          scope.userLabel
+        );
+      }
+    }
+  }
+
+  /**
+   * Проверяет лимиты расхода для чата и пользователя
+   * Проверка выполняется до запроса, поэтому последний запрос может немного превысить лимит
+   * @param scope Чат и пользователь
+   * @returns Имя исчерпанного лимита или null, если запрос разрешен
+   */
+  public checkQuota(scope: UsageScope): QuotaName | null {
+    const usage = this.config.USAGE;
+    if (!usage) return null;
+
+    const checks: [QuotaName, string | null][] = [
+      ["BOT_MONTHLY_TOKENS", this.createKey("month", "bot")],
+      ["CHAT_MONTHLY_TOKENS", this.createKey("month", "chat", scope.chatId)],
+      ["CHAT_DAILY_TOKENS", this.createKey("day", "chat", scope.chatId)],
+      [
+        "USER_DAILY_TOKENS",
+        scope.userId !== undefined
+          ? this.createKey("day", "user", scope.userId)
+          : null,
+      ],
+    ];
+
+    for (const [quota, key] of checks) {
+      const limit = usage[quota];
+      if (!limit || !key) continue;
+
+      if (this.getTotalTokens(this.totals.get(key)) >= limit) {
+        return quota;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Возвращает текст отказа при исчерпании лимита
+   * @returns Отказ из конфигурации или текст по умолчанию
+   */
+  public getQuotaExceededMessage(): string {
+    return (
+      this.config.USAGE?.QUOTA_EXCEEDED_MESSAGE ||
+      BOT_DEFAULTS.USAGE.QUOTA_EXCEEDED_MESSAGE
+    );
+  }
+
+  /**
+   * Возвращает расход чата за текущие сутки и месяц
+   * @param chatId ID чата
+   * @returns Строки отчета за сутки и месяц
+   */
+  public getChatUsage(chatId: number): {
+    day: UsageReportEntry;
+    month: UsageReportEntry;
+  } {
+    const id = String(chatId);
+
+    return {
+      day: this.toEntry(id, this.totals.get(this.createKey("day", "chat", id))),
+      month: this.toEntry(
+        id,
+        this.totals.get(this.createKey("month", "chat", id))
+      ),
+    };
+  }
+
+  /**
+   * Формирует отчет о расходе с крупнейшими потребителями
+   * @param topSize Количество чатов и пользователей в каждом списке
+   * @returns Отчет за текущие сутки и месяц
+   */
+  public getReport(
+    topSize: number = BOT_DEFAULTS.USAGE.REPORT_TOP_SIZE
+  ): UsageReport {
+    return {
+      currency: this.config.USAGE?.CURRENCY || BOT_DEFAULTS.USAGE.CURRENCY,
+      day: this.getPeriodReport("day", topSize),
+      month: this.getPeriodReport("month", topSize),
+    };
+  }
+
+  /**
+   * Формирует отчет за текущий период
+   * @param periodType Сутки или месяц
+   * @param topSize Размер списков потребителей
+   * @returns Отчет за период
+   * @private
+   */
+  private getPeriodReport(
+    periodType: PeriodType,
+    topSize: number
+  ): UsagePeriodReport {
+    const period = this.getPeriod(periodType);
+    const prefix = `${periodType}:${period}:`;
+    const chats: UsageReportEntry[] = [];
+    const users: UsageReportEntry[] = [];
+
+    for (const [key, totals] of this.totals.entries()) {
+      if (!key.startsWith(prefix)) continue;
+
+      const [kind, id] = key.slice(prefix.length).split(":");
+      if (kind === "chat") chats.push(this.toEntry(id, totals));
+      if (kind === "user") users.push(this.toEntry(id, totals));
+    }
+
+    const byTokens = (a: UsageReportEntry, b: UsageReportEntry) =>
+      b.totalTokens - a.totalTokens;
+
+    return {
+      period,
+      total: this.toEntry(
+        "bot",
+        this.totals.get(this.createKey(periodType, "bot"))
+      ),
+      topChats: chats.sort(byTokens).slice(0, topSize),
+      topUsers: users.sort(byTokens).slice(0, topSize),
+    };
+  }
+
+  /**
+   * Прибавляет расход к итогу и сохраняет его
+   * @param key Ключ итога
+   * @param usage Расход токенов
+   * @param label Название чата или имя пользователя
+   * @private
+   */
+  private add(key: string, usage: TokenUsage, label?: string): void {
+    const current = this.totals.get(key);
+    const updated: UsageTotals = {
+      promptTokens: (current?.promptTokens || 0) + usage.promptTokens,
+      completionTokens:
+        (current?.completionTokens || 0) + usage.completionTokens,
+      requests: (current?.requests || 0) + 1,
+      label: label || current?.label,
+    };
+
+    this.totals.set(key, updated);
+    this.store.set(key, updated);
+  }
+
+  /**
+   * Удаляет итоги, вышедшие за срок хранения, и сжимает журнал
+   * @private
+   */
+  private pruneExpired(): void {
+    const now = new Date();
+    const dayCutoff = new Date(now);
+    dayCutoff.setUTCDate(
+      dayCutoff.getUTCDate() - BOT_DEFAULTS.USAGE.DAILY_RETENTION_DAYS
+    );
+    const monthCutoff = new Date(
+      Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth() - BOT_DEFAULTS.USAGE.MONTHLY_RETENTION_MONTHS,
+        1
+      )
+    );
+
+    const cutoffs: Record<PeriodType, string> = {
+      day: this.formatPeriod("day", dayCutoff),
+      month: this.formatPeriod("month", monthCutoff),
+    };
+
+    for (const key of Array.from(this.totals.keys())) {
+      const [periodType, period] = key.split(":") as [PeriodType, string];
+      // Даты в формате ISO сравниваются как строки
+      if (!cutoffs[periodType] || period < cutoffs[periodType]) {
+        this.totals.delete(key);
+      }
+    }
+
+    this.store.compact(this.totals);
+  }
+
+  /**
+   * Формирует строку отчета с общим числом токенов и стоимостью
+   * @param id ID чата, пользователя или "bot"
+   * @param totals Накопленный расход (если есть)
+   * @returns Строка отчета
+   * @private
+   */
+  private toEntry(id: string, totals?: UsageTotals): UsageReportEntry {
+    const usage: UsageTotals = totals || {
+      promptTokens: 0,
+      completionTokens: 0,
+      requests: 0,
+    };
+
+    return {
+      id,
+      ...usage,
+      totalTokens: this.getTotalTokens(usage),
+      cost: this.getCost(usage),
+    };
+  }
+
+  /**
+   * Рассчитывает стоимость расхода по ценам из конфигурации
+   * @param totals Накопленный расход
+   * @returns Стоимость или null, если цены не заданы
+   * @private
+   */
+  private getCost(totals: UsageTotals): number | null {
+    const usage: UsageConfig | undefined = this.config.USAGE;
+    const promptPrice = usage?.PROMPT_PRICE_PER_MILLION;
+    const completionPrice = usage?.COMPLETION_PRICE_PER_MILLION;
+    if (promptPrice === undefined && completionPrice === undefined) {
+      return null;
+    }
+
+    return (
+      (totals.promptTokens * (promptPrice || 0) +
+        totals.completionTokens * (completionPrice || 0)) /
+      1000000
+    );
+  }
+
+  private getTotalTokens(totals?: UsageTotals): number {
+    return totals ? totals.promptTokens + totals.completionTokens : 0;
+  }
+
+  /**
+   * Создает ключ итога за текущий период
+   * @param periodType Сутки или месяц
+   * @param kind Бот, чат или пользователь
+   * @param id ID чата или пользователя
+   * @returns Ключ итога
+   * @private
+   */
+  private createKey(
+    periodType: PeriodType,
+    kind: ConsumerKind,
+    id?: number | string
+  ): string {
+    const key = `${periodType}:${this.getPeriod(periodType)}:${kind}`;
+    return id === undefined ? key : `${key}:${id}`;
+  }
+
+  private getPeriod(periodType: PeriodType): string {
+    return this.formatPeriod(periodType, new Date());
+  }
+
+  /**
+   * Форматирует дату как сутки (YYYY-MM-DD) или месяц (YYYY-MM) по UTC
+   * @private
+   */
+  private formatPeriod(periodType: PeriodType, date: Date): string {
+    const iso = date.toISOString();
+    return periodType === "day" ? iso.substring(0, 10) : iso.substring(0, 7);
+  }
+}